@@ -0,0 +1,435 @@
+const fs = require('fs');
+const path = require('path');
+
+const STORE_DRIVERS = ['sqlite', 'memory'];
+const LEADERBOARD_SORTS = ['wins', 'accuracy', 'gamesPlayed', 'averageResponseTime'];
+
+// A completed game as it is recorded and read back:
+// {
+//   id, mode, isPrivate, roomCode, settings, startedAt, endedAt,
+//   questions: [{ questionId, type, text }],                  // in play order
+//   rankings: [{ playerId, playerKey, name, score, rank, correctAnswers, questionsPlayed }],
+//   answers: [{ questionIndex, playerId, playerKey, answer, isCorrect, points, responseTimeMs }]
+// }
+//
+// A player's profile is { id, nickname, avatar, color }; its id is the playerKey
+// their games are recorded under. Players without a profile get a key of their own
+// for each game, so strangers who share a name are never merged.
+//
+// A game counts as a win only for a sole first place with a score above zero, against at
+// least one other player: ties for first and 0-0 games are nobody's win.
+
+// Keeps completed games in process memory; nothing survives a restart. For throwaway local
+// runs where no database file should be written.
+class MemoryGameStore {
+  constructor() {
+    this.games = []; // oldest first
+    this.profiles = new Map(); // profile id -> { id, nickname, avatar, color }
+    console.log('MemoryGameStore initialized');
+  }
+
+  // Game ids are unique, so recording one twice is a bug rather than an update
+  recordGame(game) {
+    if (this.games.some(g => g.id === game.id)) {
+      throw new Error(`Game ${game.id} is already recorded`);
+    }
+    this.games.push(structuredClone(game));
+  }
+
+  getGame(gameId) {
+    const game = this.games.find(g => g.id === gameId);
+    return game ? structuredClone(game) : null;
+  }
+
+  // Newest games first
+  getRecentGames(limit = 20) {
+    return this.games.slice(-limit).reverse().map(game => structuredClone(game));
+  }
+
+  // One summary per game the player finished, newest first
+  getPlayerGames(playerKey, limit = 20) {
+    const summaries = [];
+    for (const game of [...this.games].reverse()) {
+      const ranking = game.rankings.find(r => r.playerKey === playerKey);
+      if (ranking) {
+        summaries.push(summarizePlayerGame(game, ranking));
+      }
+      if (summaries.length >= limit) break;
+    }
+    return summaries;
+  }
+
+  saveProfile(profile) {
+    this.profiles.set(profile.id, { ...profile });
+  }
+
+  getProfile(profileId) {
+    const profile = this.profiles.get(profileId);
+    return profile ? { ...profile } : null;
+  }
+
+  getLeaderboard({ sortBy = 'wins', limit = 50 } = {}) {
+    const totals = new Map(); // playerKey -> running totals
+    for (const game of this.games) {
+      for (const ranking of game.rankings) {
+        const total = totals.get(ranking.playerKey) || {
+          playerKey: ranking.playerKey,
+          gamesPlayed: 0,
+          wins: 0,
+          correctAnswers: 0,
+          questionsPlayed: 0,
+          responseTimeTotal: 0,
+          responseCount: 0
+        };
+        // Games are oldest first, so the latest name used sticks
+        total.name = ranking.name;
+        total.lastPlayedAt = game.endedAt;
+        total.gamesPlayed++;
+        total.wins += isOutrightWin(ranking, game.rankings) ? 1 : 0;
+        total.correctAnswers += ranking.correctAnswers;
+        total.questionsPlayed += ranking.questionsPlayed;
+        totals.set(ranking.playerKey, total);
+      }
+      for (const answer of game.answers) {
+        const total = totals.get(answer.playerKey);
+        if (total && answer.responseTimeMs !== null && answer.responseTimeMs !== undefined) {
+          total.responseTimeTotal += answer.responseTimeMs;
+          total.responseCount++;
+        }
+      }
+    }
+
+    const entries = [...totals.values()].map(total => buildLeaderboardEntry({
+      ...total,
+      averageResponseTimeMs: total.responseCount > 0 ? total.responseTimeTotal / total.responseCount : null
+    }, this.profiles.get(total.playerKey)));
+    return rankLeaderboard(entries, sortBy, limit);
+  }
+
+  close() {}
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS games (
+    id TEXT PRIMARY KEY,
+    mode TEXT NOT NULL,
+    is_private INTEGER NOT NULL DEFAULT 0,
+    room_code TEXT,
+    settings TEXT NOT NULL,
+    started_at INTEGER,
+    ended_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_games_ended_at ON games (ended_at);
+
+  CREATE TABLE IF NOT EXISTS game_questions (
+    game_id TEXT NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    question_index INTEGER NOT NULL,
+    question_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    text TEXT NOT NULL,
+    PRIMARY KEY (game_id, question_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS game_rankings (
+    game_id TEXT NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    player_id TEXT NOT NULL,
+    player_key TEXT NOT NULL,
+    name TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    rank INTEGER NOT NULL,
+    correct_answers INTEGER NOT NULL,
+    questions_played INTEGER NOT NULL,
+    PRIMARY KEY (game_id, player_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_game_rankings_player_key ON game_rankings (player_key);
+
+  CREATE TABLE IF NOT EXISTS game_answers (
+    game_id TEXT NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    question_index INTEGER NOT NULL,
+    player_id TEXT NOT NULL,
+    player_key TEXT NOT NULL,
+    answer TEXT, -- JSON, since answers can be a number or an array
+    is_correct INTEGER NOT NULL,
+    points INTEGER NOT NULL,
+    response_time_ms INTEGER,
+    PRIMARY KEY (game_id, question_index, player_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS profiles (
+    id TEXT PRIMARY KEY,
+    nickname TEXT NOT NULL,
+    avatar TEXT,
+    color TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+// Keeps completed games in a SQLite file so results outlive the server process
+class SqliteGameStore {
+  constructor(filename) {
+    // Loaded here so the memory store works without the native module
+    const Database = require('better-sqlite3');
+
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+
+    this.statements = {
+      insertGame: this.db.prepare(`
+        INSERT INTO games (id, mode, is_private, room_code, settings, started_at, ended_at)
+        VALUES (@id, @mode, @isPrivate, @roomCode, @settings, @startedAt, @endedAt)
+      `),
+      insertQuestion: this.db.prepare(`
+        INSERT INTO game_questions (game_id, question_index, question_id, type, text)
+        VALUES (@gameId, @questionIndex, @questionId, @type, @text)
+      `),
+      insertRanking: this.db.prepare(`
+        INSERT INTO game_rankings (game_id, player_id, player_key, name, score, rank, correct_answers, questions_played)
+        VALUES (@gameId, @playerId, @playerKey, @name, @score, @rank, @correctAnswers, @questionsPlayed)
+      `),
+      insertAnswer: this.db.prepare(`
+        INSERT INTO game_answers (game_id, question_index, player_id, player_key, answer, is_correct, points, response_time_ms)
+        VALUES (@gameId, @questionIndex, @playerId, @playerKey, @answer, @isCorrect, @points, @responseTimeMs)
+      `),
+      selectGame: this.db.prepare('SELECT * FROM games WHERE id = ?'),
+      selectRecentGameIds: this.db.prepare('SELECT id FROM games ORDER BY ended_at DESC LIMIT ?'),
+      selectQuestions: this.db.prepare('SELECT * FROM game_questions WHERE game_id = ? ORDER BY question_index'),
+      selectRankings: this.db.prepare('SELECT * FROM game_rankings WHERE game_id = ? ORDER BY rank, name'),
+      selectAnswers: this.db.prepare('SELECT * FROM game_answers WHERE game_id = ? ORDER BY question_index, player_id'),
+      selectPlayerGames: this.db.prepare(`
+        SELECT g.id, g.mode, g.ended_at, r.name, r.score, r.rank, r.correct_answers,
+          (SELECT COUNT(*) FROM game_rankings WHERE game_id = g.id) AS player_count,
+          (SELECT COUNT(*) FROM game_questions WHERE game_id = g.id) AS question_count
+        FROM game_rankings r
+        JOIN games g ON g.id = r.game_id
+        WHERE r.player_key = ?
+        ORDER BY g.ended_at DESC
+        LIMIT ?
+      `),
+      upsertProfile: this.db.prepare(`
+        INSERT INTO profiles (id, nickname, avatar, color, created_at, updated_at)
+        VALUES (@id, @nickname, @avatar, @color, @now, @now)
+        ON CONFLICT (id) DO UPDATE SET
+          nickname = excluded.nickname, avatar = excluded.avatar, color = excluded.color, updated_at = excluded.updated_at
+      `),
+      selectProfile: this.db.prepare('SELECT id, nickname, avatar, color FROM profiles WHERE id = ?'),
+      // With exactly one MAX() aggregate, SQLite takes the bare r.name from the latest game
+      selectLeaderboardTotals: this.db.prepare(`
+        SELECT r.player_key, r.name, MAX(g.ended_at) AS last_played_at,
+          COUNT(*) AS games_played,
+          SUM(CASE WHEN r.rank = 1 AND r.score > 0
+            AND (SELECT COUNT(*) FROM game_rankings o WHERE o.game_id = r.game_id) > 1
+            AND (SELECT COUNT(*) FROM game_rankings o WHERE o.game_id = r.game_id AND o.rank = 1) = 1
+            THEN 1 ELSE 0 END) AS wins,
+          SUM(r.correct_answers) AS correct_answers,
+          SUM(r.questions_played) AS questions_played,
+          p.nickname, p.avatar, p.color
+        FROM game_rankings r
+        JOIN games g ON g.id = r.game_id
+        LEFT JOIN profiles p ON p.id = r.player_key
+        GROUP BY r.player_key
+      `),
+      selectAverageResponseTimes: this.db.prepare(`
+        SELECT player_key, AVG(response_time_ms) AS average_response_time_ms
+        FROM game_answers
+        WHERE response_time_ms IS NOT NULL
+        GROUP BY player_key
+      `)
+    };
+
+    // A game and all its rows are written together or not at all. A game id that is already
+    // stored fails the insert rather than replacing the earlier game.
+    this.writeGame = this.db.transaction((game) => {
+      const { statements } = this;
+      statements.insertGame.run({
+        id: game.id,
+        mode: game.mode,
+        isPrivate: game.isPrivate ? 1 : 0,
+        roomCode: game.roomCode || null,
+        settings: JSON.stringify(game.settings || {}),
+        startedAt: game.startedAt || null,
+        endedAt: game.endedAt
+      });
+      game.questions.forEach((question, questionIndex) => {
+        statements.insertQuestion.run({ gameId: game.id, questionIndex, ...question });
+      });
+      game.rankings.forEach(ranking => {
+        statements.insertRanking.run({ gameId: game.id, ...ranking });
+      });
+      game.answers.forEach(answer => {
+        statements.insertAnswer.run({
+          gameId: game.id,
+          ...answer,
+          answer: answer.answer === null || answer.answer === undefined ? null : JSON.stringify(answer.answer),
+          isCorrect: answer.isCorrect ? 1 : 0,
+          responseTimeMs: answer.responseTimeMs ?? null
+        });
+      });
+    });
+
+    console.log(`SqliteGameStore initialized at ${filename}`);
+  }
+
+  recordGame(game) {
+    this.writeGame(game);
+  }
+
+  getGame(gameId) {
+    const row = this.statements.selectGame.get(gameId);
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      mode: row.mode,
+      isPrivate: !!row.is_private,
+      roomCode: row.room_code,
+      settings: JSON.parse(row.settings),
+      startedAt: row.started_at,
+      endedAt: row.ended_at,
+      questions: this.statements.selectQuestions.all(gameId).map(q => ({
+        questionId: q.question_id,
+        type: q.type,
+        text: q.text
+      })),
+      rankings: this.statements.selectRankings.all(gameId).map(r => ({
+        playerId: r.player_id,
+        playerKey: r.player_key,
+        name: r.name,
+        score: r.score,
+        rank: r.rank,
+        correctAnswers: r.correct_answers,
+        questionsPlayed: r.questions_played
+      })),
+      answers: this.statements.selectAnswers.all(gameId).map(a => ({
+        questionIndex: a.question_index,
+        playerId: a.player_id,
+        playerKey: a.player_key,
+        answer: a.answer === null ? null : JSON.parse(a.answer),
+        isCorrect: !!a.is_correct,
+        points: a.points,
+        responseTimeMs: a.response_time_ms
+      }))
+    };
+  }
+
+  // Newest games first
+  getRecentGames(limit = 20) {
+    return this.statements.selectRecentGameIds.all(limit).map(({ id }) => this.getGame(id));
+  }
+
+  // One summary per game the player finished, newest first
+  getPlayerGames(playerKey, limit = 20) {
+    return this.statements.selectPlayerGames.all(playerKey, limit).map(row => ({
+      gameId: row.id,
+      mode: row.mode,
+      endedAt: row.ended_at,
+      name: row.name,
+      score: row.score,
+      rank: row.rank,
+      correctAnswers: row.correct_answers,
+      playerCount: row.player_count,
+      questionCount: row.question_count
+    }));
+  }
+
+  saveProfile({ id, nickname, avatar, color }) {
+    this.statements.upsertProfile.run({ id, nickname, avatar: avatar || null, color: color || null, now: Date.now() });
+  }
+
+  getProfile(profileId) {
+    return this.statements.selectProfile.get(profileId) || null;
+  }
+
+  getLeaderboard({ sortBy = 'wins', limit = 50 } = {}) {
+    const responseTimes = new Map(
+      this.statements.selectAverageResponseTimes.all().map(row => [row.player_key, row.average_response_time_ms])
+    );
+    const entries = this.statements.selectLeaderboardTotals.all().map(row => buildLeaderboardEntry({
+      playerKey: row.player_key,
+      name: row.name,
+      lastPlayedAt: row.last_played_at,
+      gamesPlayed: row.games_played,
+      wins: row.wins,
+      correctAnswers: row.correct_answers,
+      questionsPlayed: row.questions_played,
+      averageResponseTimeMs: responseTimes.get(row.player_key) ?? null
+    }, row.nickname ? { nickname: row.nickname, avatar: row.avatar, color: row.color } : null));
+    return rankLeaderboard(entries, sortBy, limit);
+  }
+
+  close() {
+    this.db.close();
+  }
+}
+
+// Shape a game and one player's ranking in it the way getPlayerGames returns them
+const summarizePlayerGame = (game, ranking) => ({
+  gameId: game.id,
+  mode: game.mode,
+  endedAt: game.endedAt,
+  name: ranking.name,
+  score: ranking.score,
+  rank: ranking.rank,
+  correctAnswers: ranking.correctAnswers,
+  playerCount: game.rankings.length,
+  questionCount: game.questions.length
+});
+
+// Whether a ranking won its game outright; the sqlite leaderboard query applies the same rule
+const isOutrightWin = (ranking, rankings) => {
+  return ranking.rank === 1 && ranking.score > 0 && rankings.length > 1 &&
+    rankings.filter(r => r.rank === 1).length === 1;
+};
+
+// Shape one player's all-time totals as a leaderboard entry, preferring their profile's look
+const buildLeaderboardEntry = (totals, profile) => ({
+  playerKey: totals.playerKey,
+  nickname: profile?.nickname || totals.name,
+  avatar: profile?.avatar || null,
+  color: profile?.color || null,
+  gamesPlayed: totals.gamesPlayed,
+  wins: totals.wins,
+  correctAnswers: totals.correctAnswers,
+  questionsPlayed: totals.questionsPlayed,
+  accuracy: totals.questionsPlayed > 0 ? totals.correctAnswers / totals.questionsPlayed : 0,
+  averageResponseTimeMs: totals.averageResponseTimeMs === null ? null : Math.round(totals.averageResponseTimeMs),
+  lastPlayedAt: totals.lastPlayedAt
+});
+
+// How each leaderboard sort compares two entries; negative puts a first
+const LEADERBOARD_COMPARATORS = {
+  wins: (a, b) => b.wins - a.wins,
+  accuracy: (a, b) => b.accuracy - a.accuracy,
+  gamesPlayed: (a, b) => b.gamesPlayed - a.gamesPlayed,
+  // Fastest first; players with no timed answers go last
+  averageResponseTime: (a, b) => (a.averageResponseTimeMs ?? Infinity) - (b.averageResponseTimeMs ?? Infinity)
+};
+
+// Order entries best first by the chosen stat, breaking ties on wins then games played, and keep the top few
+const rankLeaderboard = (entries, sortBy, limit) => {
+  const compare = LEADERBOARD_COMPARATORS[sortBy] || LEADERBOARD_COMPARATORS.wins;
+  return entries
+    .sort((a, b) => compare(a, b) || b.wins - a.wins || b.gamesPlayed - a.gamesPlayed)
+    .slice(0, limit);
+};
+
+// Create the store for the given driver: 'sqlite' (default, needs a filename) or 'memory'
+const createGameStore = ({ driver = 'sqlite', filename } = {}) => {
+  if (!STORE_DRIVERS.includes(driver)) {
+    throw new Error(`Unknown game store driver "${driver}", expected one of ${STORE_DRIVERS.join(', ')}`);
+  }
+  if (driver === 'memory') {
+    return new MemoryGameStore();
+  }
+  if (!filename) {
+    throw new Error('The sqlite game store needs a filename');
+  }
+  return new SqliteGameStore(filename);
+};
+
+module.exports = { createGameStore, MemoryGameStore, SqliteGameStore, STORE_DRIVERS, LEADERBOARD_SORTS };
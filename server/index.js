@@ -2,25 +2,43 @@ const express = require('express');
 const http = require('http');
 const socketIo = require('socket.io');
 const cors = require('cors');
-const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
 const NetworkMonitor = require('./networkMonitor');
+const ScoringEngine = require('./scoring');
+const QuestionProvider = require('./questionProvider');
+const { getQuestionType } = require('./questionTypes');
+const lobbyClock = require('./lobbyClock');
+const { createGameStore, LEADERBOARD_SORTS } = require('./gameStore');
 
 const PORT = process.env.PORT || 5001;
 let isServerRunning = false;
 let sessionMergeInterval = null;
+let adminStatsInterval = null;
 
 const app = express();
 app.use(cors());
 
+// Question images, audio and video clips live in a local media directory
+const MEDIA_DIR = process.env.MEDIA_DIR || path.join(__dirname, 'media');
+const MEDIA_URL_PATH = '/media';
+app.use(MEDIA_URL_PATH, express.static(MEDIA_DIR, { maxAge: '1h' }));
+
 // Basic test endpoint
 app.get('/', (req, res) => {
   res.send('Server is running');
 });
 
-// Health check endpoint
+// Health check endpoint, with enough load figures for a quick look; details are on the admin dashboard
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', port: PORT });
+  res.json({
+    status: 'ok',
+    port: PORT,
+    uptimeSeconds: Math.round(process.uptime()),
+    sessions: sessions.size,
+    connections: io.engine.clientsCount,
+    queueLength: waitingQueue.length
+  });
 });
 
 const server = http.createServer(app);
@@ -42,32 +60,252 @@ if (!global.networkMonitor) {
   networkMonitor = global.networkMonitor;
 }
 
+// Initialize scoring engine; negative marking is off unless a penalty is configured
+const scoringEngine = new ScoringEngine({
+  wrongAnswerPenalty: Number(process.env.WRONG_ANSWER_PENALTY) || 0
+});
+
 // Session and game management
 const MAX_SESSIONS = 3;
 const LOBBY_TIMER = 15; // seconds
 const BASE_QUESTION_TIMER = 15; // seconds
-const MIN_QUESTION_TIMER = 10; // seconds
-const MAX_QUESTION_TIMER = 20; // seconds
 const QUESTIONS_PER_GAME = 10;
+const MAX_PLAYERS_PER_SESSION = 4;
+const MAX_SPECTATORS_PER_SESSION = 20; // watchers don't count against the player cap
+const REVEAL_DELAY = 3; // seconds the answer is shown before the next question
+const ROOM_CODE_LENGTH = 6;
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I lookalikes
+const RECONNECT_GRACE_PERIOD = 30; // seconds a dropped player is kept as away
+const ANSWER_GRACE_BASE = 200; // ms an answer may arrive after the deadline, before latency
+const MAX_ANSWER_GRACE = 1000; // ms cap on the late-answer allowance
+const MEDIA_PRELOAD_LEAD = 2; // seconds to let clients preload the first question's media
+const RESULTS_CLEANUP_DELAY = 30; // seconds results stay up before an ended session is removed
+const MAX_QUEUE_LENGTH = 50; // players waiting for a free session before we turn people away
+const SESSION_MERGE_INTERVAL = 5; // seconds between passes that combine under-filled lobbies
+const HISTORY_REPLAY_GAMES = 100; // stored games replayed into question history on startup
+const PROFILE_TOKEN_LENGTH = [16, 128]; // allowed [min, max] length of a client's profile token
+const MAX_AVATAR_LENGTH = 8; // an emoji, possibly several code units long
+const PROFILE_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const LEADERBOARD_LIMIT = [1, 100]; // allowed [min, max] entries per leaderboard request
+const POWER_UPS = ['fiftyFifty', 'doublePoints', 'timeFreeze', 'pollRoom']; // each usable once per game
+const FIFTY_FIFTY_HIDDEN = 2; // wrong options a 50/50 hides
+const DOUBLE_POINTS_BOOST = 2; // multiplier on the answer after double points is used
+const TIME_FREEZE_SECONDS = 10; // seconds a time freeze adds to one player's own deadline
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || null; // the admin dashboard stays closed until this is set
+const ADMIN_STATS_INTERVAL = 2; // seconds between snapshots pushed to connected admin dashboards
+
+// Load and validate every question pack in server/data
+const questionProvider = new QuestionProvider(path.join(__dirname, 'data'), { mediaDir: MEDIA_DIR });
+questionProvider.loadPacks();
+
+// Completed games, answers and rankings. GAME_STORE=memory keeps them in process only, for throwaway runs.
+const gameStore = createGameStore({
+  driver: process.env.GAME_STORE || 'sqlite',
+  filename: process.env.GAME_STORE_PATH || path.join(__dirname, 'storage', 'quiz.sqlite')
+});
+
+// All-time leaderboard: ?sort=wins|accuracy|gamesPlayed|averageResponseTime&limit=N
+app.get('/api/leaderboard', (req, res) => {
+  const sortBy = req.query.sort || 'wins';
+  if (!LEADERBOARD_SORTS.includes(sortBy)) {
+    res.status(400).json({ error: `sort must be one of ${LEADERBOARD_SORTS.join(', ')}` });
+    return;
+  }
+  const [minLimit, maxLimit] = LEADERBOARD_LIMIT;
+  const limit = Math.min(maxLimit, Math.max(minLimit, parseInt(req.query.limit, 10) || 50));
+
+  try {
+    res.json({ sortBy, players: gameStore.getLeaderboard({ sortBy, limit }) });
+  } catch (error) {
+    console.error('Error loading leaderboard:', error);
+    res.status(500).json({ error: 'Could not load the leaderboard' });
+  }
+});
+
+// Defaults for the settings a host can change in the lobby
+const DEFAULT_SETTINGS = {
+  questionCount: QUESTIONS_PER_GAME,
+  category: 'any',
+  difficulty: 'mixed',
+  timerMode: 'adaptive',
+  questionTimer: BASE_QUESTION_TIMER, // seconds, used when timerMode is 'fixed'
+  maxPlayers: MAX_PLAYERS_PER_SESSION,
+  revealDelay: REVEAL_DELAY,
+  teamMode: false,
+  teamCount: 2,
+  teamScoring: 'sum', // how members' points for a question become the team's: sum, average or best
+  survivalMode: false, // wrong or missing answers cost lives; play on until one player is left
+  lives: 1
+};
+
+// Allowed [min, max] for the numeric settings
+const SETTINGS_LIMITS = {
+  questionCount: [1, 30],
+  questionTimer: [5, 60],
+  maxPlayers: [2, 8],
+  revealDelay: [1, 10],
+  teamCount: [2, 4],
+  lives: [1, 5]
+};
+const SETTINGS_DIFFICULTIES = ['mixed', ...QuestionProvider.DIFFICULTIES];
+const SETTINGS_TIMER_MODES = ['adaptive', 'fixed'];
+const SETTINGS_TEAM_SCORING = ['sum', 'average', 'best'];
 
-// Load questions from JSON file
-const questionsData = JSON.parse(
-  fs.readFileSync(path.join(__dirname, 'data/questions.json'), 'utf8')
-);
+// Teams a session can be split into, in the order they are used
+const TEAM_PRESETS = [
+  { id: 'red', name: 'Red Rockets', color: '#ef4444' },
+  { id: 'blue', name: 'Blue Sharks', color: '#3b82f6' },
+  { id: 'green', name: 'Green Geckos', color: '#22c55e' },
+  { id: 'gold', name: 'Gold Owls', color: '#eab308' }
+];
 
 // Game sessions storage
 const sessions = new Map();
 const sessionStates = new Map(); // For state persistence
+const playerIdentities = new Map(); // resumeToken -> { sessionId, playerId, awayTimer }
+const waitingQueue = []; // { socketId, name, mode, createPrivate, profile } in arrival order, while every session slot is taken
 
 // Helper function to generate a random session ID
 const generateSessionId = () => {
   return Math.random().toString(36).substring(2, 10);
 };
 
-// Helper function to select random questions from the question bank
-const selectRandomQuestions = (count) => {
-  const shuffled = [...questionsData].sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, count);
+// Helper function to generate a short, human-readable code for private rooms
+const generateRoomCode = () => {
+  let code;
+  do {
+    code = '';
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+      code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+    }
+  } while (findSessionByRoomCode(code));
+  return code;
+};
+
+// Helper function to look up a private session by its room code
+const findSessionByRoomCode = (roomCode) => {
+  const normalized = String(roomCode).trim().toUpperCase();
+  for (const session of sessions.values()) {
+    if (session.isPrivate && session.roomCode === normalized) {
+      return session;
+    }
+  }
+  return null;
+};
+
+// Helper function to generate the secret token a client uses to resume its seat
+const generateResumeToken = () => {
+  return crypto.randomBytes(16).toString('hex');
+};
+
+// Helper function to find the resume identity currently bound to a player
+const findPlayerIdentity = (sessionId, playerId) => {
+  for (const identity of playerIdentities.values()) {
+    if (identity.sessionId === sessionId && identity.playerId === playerId) {
+      return identity;
+    }
+  }
+  return null;
+};
+
+// Helper function to forget resume tokens, either for one player or for a whole session
+const releasePlayerIdentities = (sessionId, playerId = null) => {
+  for (const [token, identity] of playerIdentities) {
+    if (identity.sessionId === sessionId && (!playerId || identity.playerId === playerId)) {
+      if (identity.awayTimer) {
+        clearTimeout(identity.awayTimer);
+      }
+      playerIdentities.delete(token);
+    }
+  }
+};
+
+// Helper function to get the key a player's recently seen questions are tracked under:
+// their profile when they have one, otherwise their name
+const getPlayerHistoryKey = (player) => {
+  return player.profileId || String(player.name ?? '').trim().toLowerCase();
+};
+
+// Seed recently seen questions from stored games so a restart doesn't start repeating them.
+// Guests are stored under a per-game key, so replay them under the name they're looked up by.
+gameStore.getRecentGames(HISTORY_REPLAY_GAMES).reverse().forEach(game => {
+  const playerKeys = game.rankings.map(r => (
+    r.playerKey.startsWith('guest:') ? getPlayerHistoryKey({ name: r.name }) : r.playerKey
+  ));
+  questionProvider.rememberQuestions(playerKeys, game.questions.map(q => q.questionId));
+});
+
+// Helper function to turn the profile a client sent (secret token plus look) into the public
+// profile a player carries, saving it as we go. The id is a hash of the token, so it can be
+// shown to everyone without letting anyone else claim the profile.
+const resolveProfile = (profile, nickname) => {
+  const [minTokenLength, maxTokenLength] = PROFILE_TOKEN_LENGTH;
+  if (!profile || typeof profile.token !== 'string' || profile.token.length < minTokenLength || profile.token.length > maxTokenLength) {
+    return null;
+  }
+  const resolved = {
+    id: crypto.createHash('sha256').update(profile.token).digest('hex').slice(0, 24),
+    nickname,
+    avatar: typeof profile.avatar === 'string' && profile.avatar.length <= MAX_AVATAR_LENGTH ? profile.avatar : null,
+    color: typeof profile.color === 'string' && PROFILE_COLOR_PATTERN.test(profile.color) ? profile.color : null
+  };
+  try {
+    gameStore.saveProfile(resolved);
+  } catch (error) {
+    console.error(`Error saving profile ${resolved.id}:`, error);
+  }
+  return resolved;
+};
+
+// Helper function to pick a session's questions, avoiding ones its players saw recently.
+// Survival games draw on the whole pack, since they run until one player is left.
+const selectQuestionsForSession = (session) => {
+  const { questionCount, category, difficulty, survivalMode } = session.settings;
+  const packSize = category === 'any'
+    ? Object.values(questionProvider.getCategories()).reduce((sum, count) => sum + count, 0)
+    : questionProvider.getCategories()[category] || 0;
+  return questionProvider.getRandomQuestions(survivalMode ? packSize : questionCount, {
+    category,
+    difficultyMix: difficulty === 'mixed' ? undefined : { [difficulty]: 1 },
+    playerKeys: session.players.map(getPlayerHistoryKey),
+    // A near miss on a numeric or ordering question shouldn't knock a player out
+    filter: survivalMode ? (question) => getQuestionType(question).survivalSafe : undefined
+  });
+};
+
+// Helper function to merge a host's changes into a session's settings, keeping every value in range
+const applySettingsChanges = (session, changes) => {
+  const settings = { ...session.settings };
+  
+  for (const [key, [min, max]] of Object.entries(SETTINGS_LIMITS)) {
+    const value = Number(changes[key]);
+    if (changes[key] !== undefined && Number.isFinite(value)) {
+      settings[key] = Math.min(max, Math.max(min, Math.round(value)));
+    }
+  }
+  // Never shrink the room below the players already in it
+  settings.maxPlayers = Math.max(settings.maxPlayers, session.players.length);
+  
+  if (changes.category === 'any' || Object.keys(questionProvider.getCategories()).includes(changes.category)) {
+    settings.category = changes.category;
+  }
+  if (SETTINGS_DIFFICULTIES.includes(changes.difficulty)) {
+    settings.difficulty = changes.difficulty;
+  }
+  if (SETTINGS_TIMER_MODES.includes(changes.timerMode)) {
+    settings.timerMode = changes.timerMode;
+  }
+  if (typeof changes.teamMode === 'boolean') {
+    settings.teamMode = changes.teamMode;
+  }
+  if (SETTINGS_TEAM_SCORING.includes(changes.teamScoring)) {
+    settings.teamScoring = changes.teamScoring;
+  }
+  if (typeof changes.survivalMode === 'boolean') {
+    settings.survivalMode = changes.survivalMode;
+  }
+  
+  return settings;
 };
 
 // Helper function to check if we can create a new session
@@ -75,29 +313,621 @@ const canCreateNewSession = () => {
   return sessions.size < MAX_SESSIONS;
 };
 
-// Function to calculate adaptive question timer based on network conditions
+// Helper function to create and register a new lobby session
+const createSession = (mode, { isPrivate = false } = {}) => {
+  const sessionId = generateSessionId();
+  const session = {
+    mode,
+    id: sessionId,
+    status: 'lobby',
+    players: [],
+    spectators: [], // { id, name, isPresenter } of sockets watching without playing
+    questions: [], // picked when the game starts and the players are known
+    settings: { ...DEFAULT_SETTINGS },
+    currentQuestionIndex: -1,
+    timerDecisions: [], // { questionIndex, averageLatency, timerMode, timeLimit, decidedAt } for the admin dashboard
+    lobbyStartTime: Date.now(),
+    isPrivate,
+    roomCode: isPrivate ? generateRoomCode() : null
+  };
+  sessions.set(sessionId, session);
+  console.log(`Created new ${isPrivate ? `private session ${sessionId} with code ${session.roomCode}` : `session: ${sessionId}`}`);
+  return session;
+};
+
+// Helper function to find a public lobby of the given mode that still has room and hasn't timed out
+const findOpenPublicLobby = (mode) => {
+  const now = Date.now();
+  for (const session of sessions.values()) {
+    if (!session.isPrivate && session.status === 'lobby' && session.players.length < session.settings.maxPlayers && session.mode === mode && (now - session.lobbyStartTime) <= LOBBY_TIMER * 1000) {
+      return session;
+    }
+  }
+  return null;
+};
+
+// Helper function to seat a connected socket as a player in a session
+const addPlayerToSession = (socket, session, name, profile = null) => {
+  const player = {
+    id: socket.id,
+    name,
+    profileId: profile?.id || null,
+    avatar: profile?.avatar || null,
+    color: profile?.color || null,
+    score: 0,
+    streak: 0,
+    answers: [],
+    isReady: false,
+    isHost: session.players.length === 0,
+    teamId: null,
+    usedPowerUps: [],
+    doublePointsArmed: false,
+    extraTimeMs: 0, // time freeze on the current question
+    questionDelayMs: null, // how late the current question reached this player, measured from their ack
+    lives: null, // survival mode only
+    eliminatedOnQuestion: null
+  };
+  session.players.push(player);
+  assignToSmallestTeam(session, player);
+
+  // Join socket room
+  socket.join(session.id);
+
+  // Give the client a private token it can use to take this seat back after a dropped connection
+  const resumeToken = generateResumeToken();
+  playerIdentities.set(resumeToken, { sessionId: session.id, playerId: socket.id, awayTimer: null });
+  socket.emit('session-joined', { sessionId: session.id, resumeToken, profileId: player.profileId });
+
+  // Start lobby timer if this is the first player
+  if (session.players.length === 1) {
+    startLobbyTimer(session.id);
+  }
+
+  // Send game state to all players in the session
+  io.to(session.id).emit('gameState', buildGameState(session));
+};
+
+// Helper function to list the teams a session plays in; empty unless team mode is on
+const getSessionTeams = (session) => {
+  return session.settings.teamMode ? TEAM_PRESETS.slice(0, session.settings.teamCount) : [];
+};
+
+// Helper function to put a player on the team with the fewest members
+const assignToSmallestTeam = (session, player) => {
+  const teams = getSessionTeams(session);
+  if (teams.length === 0) {
+    player.teamId = null;
+    return;
+  }
+  const sizes = teams.map(team => session.players.filter(p => p !== player && p.teamId === team.id).length);
+  player.teamId = teams[sizes.indexOf(Math.min(...sizes))].id;
+};
+
+// Helper function to make sure every player is on one of the session's teams. Players keep
+// their team when it still exists; reshuffle deals everyone out again at random.
+const balanceTeams = (session, { reshuffle = false } = {}) => {
+  const teamIds = getSessionTeams(session).map(team => team.id);
+  const players = reshuffle ? QuestionProvider.shuffle(session.players) : session.players;
+  players.forEach(player => {
+    if (reshuffle || !teamIds.includes(player.teamId)) {
+      player.teamId = null;
+    }
+  });
+  players.filter(player => !player.teamId).forEach(player => assignToSmallestTeam(session, player));
+};
+
+// Helper function to rank entries sorted by score, best first. Tied scores share a rank
+// and the next rank skips past them (1, 1, 3).
+const rankByScore = (entries) => {
+  let currentRank = 1;
+  let previousScore = null;
+  let entriesWithCurrentRank = 0;
+  
+  entries.forEach(entry => {
+    if (previousScore !== null && entry.score < previousScore) {
+      currentRank += entriesWithCurrentRank;
+      entriesWithCurrentRank = 1;
+    } else {
+      entriesWithCurrentRank++;
+    }
+    entry.rank = currentRank;
+    previousScore = entry.score;
+  });
+  return entries;
+};
+
+// Helper function to rank survival results: whoever lasted longest first, score breaking ties.
+// Players level on both share a rank, as in rankByScore.
+const rankBySurvival = (entries) => {
+  const lasted = (entry) => entry.eliminatedOnQuestion === null ? Infinity : entry.eliminatedOnQuestion;
+  const sorted = [...entries].sort((a, b) => (lasted(b) - lasted(a)) || (b.score - a.score));
+  
+  sorted.forEach((entry, index) => {
+    const previous = sorted[index - 1];
+    entry.rank = previous && lasted(previous) === lasted(entry) && previous.score === entry.score
+      ? previous.rank
+      : index + 1;
+  });
+  return sorted;
+};
+
+// Helper function to list the players still in a survival game
+const getSurvivors = (session) => {
+  return session.players.filter(player => player.eliminatedOnQuestion === null);
+};
+
+// Helper function to check whether a survival game is down to its last player (or nobody)
+const isSurvivalOver = (session) => {
+  if (!session.settings.survivalMode) return false;
+  const survivors = getSurvivors(session).length;
+  return survivors === 0 || (survivors === 1 && session.players.length > 1);
+};
+
+// Helper function to take a life from every survivor who missed the current question; returns who is now out
+const applySurvivalLosses = (session) => {
+  const eliminated = [];
+  getSurvivors(session).forEach(player => {
+    const entry = player.answers.find(a => a.questionIndex === session.currentQuestionIndex);
+    if (entry && entry.isCorrect) return;
+    
+    player.lives--;
+    if (player.lives <= 0) {
+      player.eliminatedOnQuestion = session.currentQuestionIndex;
+      eliminated.push({ playerId: player.id, name: player.name });
+    }
+  });
+  return eliminated;
+};
+
+// Helper function to total each team's score and rank the teams. Each finished question adds
+// its members' points combined by the session's teamScoring: their sum, their average (members
+// who didn't answer count as 0) or the best single answer. null outside team mode.
+const buildTeamStandings = (session) => {
+  const teams = getSessionTeams(session);
+  if (teams.length === 0) return null;
+  
+  const scoredCount = getRevealedQuestionCount(session);
+  
+  const standings = teams.map(team => {
+    const members = session.players.filter(p => p.teamId === team.id);
+    let score = 0;
+    for (let questionIndex = 0; questionIndex < scoredCount; questionIndex++) {
+      const memberPoints = members.map(member => {
+        const entry = member.answers.find(a => a.questionIndex === questionIndex);
+        return entry ? entry.points.total : 0;
+      });
+      if (memberPoints.length === 0) continue;
+      if (session.settings.teamScoring === 'best') {
+        score += Math.max(...memberPoints);
+      } else {
+        const total = memberPoints.reduce((sum, points) => sum + points, 0);
+        score += session.settings.teamScoring === 'average' ? total / members.length : total;
+      }
+    }
+    const mvp = [...members].sort((a, b) => b.score - a.score)[0];
+    return {
+      ...team,
+      score: Math.round(score),
+      memberIds: members.map(member => member.id),
+      mvpId: mvp ? mvp.id : null
+    };
+  });
+  
+  return rankByScore(standings.sort((a, b) => b.score - a.score));
+};
+
+// Helper function to count the questions whose answers are final: everything up to the one
+// being revealed, or all played once the game has ended
+const getRevealedQuestionCount = (session) => {
+  return session.status === 'ended' || session.isRevealing
+    ? Math.min(session.questions.length, session.currentQuestionIndex + 1)
+    : Math.max(0, session.currentQuestionIndex);
+};
+
+// Helper function to build the view of a player the whole room may see. Answers to the open
+// question stay private (only whether one was given shows) until question-ended reveals them,
+// so the poll power-up is the only way to see picks early; armed power-ups stay private too.
+const buildPublicPlayer = (session, player) => {
+  const revealedCount = getRevealedQuestionCount(session);
+  const { doublePointsArmed, extraTimeMs, questionDelayMs, ...publicFields } = player;
+  return {
+    ...publicFields,
+    answers: player.answers.filter(a => a.questionIndex < revealedCount),
+    hasAnswered: session.status === 'playing' && player.answers.some(a => a.questionIndex === session.currentQuestionIndex)
+  };
+};
+
+// Helper function to send a player their full record and everyone else the public view of it
+const emitPlayerUpdate = (session, player) => {
+  io.to(player.id).emit('playerUpdate', player);
+  io.to(session.id).except(player.id).emit('playerUpdate', buildPublicPlayer(session, player));
+};
+
+// Helper function to build the leaderboard event: every player, plus team standings in team mode
+const buildLeaderboard = (session) => ({
+  players: session.players.map(player => buildPublicPlayer(session, player)),
+  teams: buildTeamStandings(session)
+});
+
+// Helper function to build the stored record of a finished game from its ranked results
+const buildGameRecord = (session, playerResults) => {
+  const gameId = crypto.randomUUID();
+  const playedCount = Math.max(0, Math.min(session.questions.length, session.currentQuestionIndex + 1));
+  // Stats follow a profile across games; a player without one is only themselves for this game
+  const playerKeys = new Map(session.players.map(p => [p.id, p.profileId || `guest:${gameId}:${p.id}`]));
+  return {
+    // Session ids only need to be unique while the server runs; stored games outlive restarts
+    id: gameId,
+    mode: session.mode,
+    isPrivate: session.isPrivate,
+    roomCode: session.roomCode,
+    settings: session.settings,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    questions: session.questions.slice(0, playedCount).map(q => ({
+      questionId: q.id,
+      type: q.type,
+      text: q.question
+    })),
+    rankings: playerResults.map(r => ({
+      playerId: r.id,
+      playerKey: playerKeys.get(r.id),
+      name: r.name,
+      score: r.score,
+      rank: r.rank,
+      correctAnswers: r.correctAnswers,
+      // A player knocked out of a survival game only played up to the question that ended them
+      questionsPlayed: r.eliminatedOnQuestion === null ? playedCount : r.eliminatedOnQuestion + 1
+    })),
+    answers: session.players.flatMap(player => player.answers.map(a => ({
+      questionIndex: a.questionIndex,
+      playerId: player.id,
+      playerKey: playerKeys.get(player.id),
+      answer: a.answer,
+      isCorrect: a.isCorrect,
+      points: a.points.total,
+      responseTimeMs: a.responseTimeMs
+    })))
+  };
+};
+
+// Helper function to estimate how many seconds are left before a session ends and frees its slot
+const estimateSessionSecondsLeft = (session) => {
+  if (session.status === 'ended') {
+    return Math.max(0, RESULTS_CLEANUP_DELAY - Math.floor((Date.now() - session.endedAt) / 1000));
+  }
+  const secondsPerQuestion = (session.settings.timerMode === 'fixed' ? session.settings.questionTimer : BASE_QUESTION_TIMER) + session.settings.revealDelay;
+  const questionsLeft = session.status === 'playing'
+    ? session.questions.length - Math.max(0, session.currentQuestionIndex)
+    : session.settings.questionCount;
+  const lobbySeconds = session.status === 'lobby' ? getLobbyTimeRemaining(session) : 0;
+  return lobbySeconds + questionsLeft * secondsPerQuestion + RESULTS_CLEANUP_DELAY;
+};
+
+// Helper function to estimate the wait for the queued player at a 1-based position.
+// Each freed slot opens a lobby that takes the next few queued players, so later
+// positions wait for later slots, and past one round of slots for whole games.
+const estimateQueueWaitSeconds = (position) => {
+  const slotsFreeIn = [...sessions.values()].map(estimateSessionSecondsLeft).sort((a, b) => a - b);
+  if (slotsFreeIn.length === 0) return 0;
+  const lobbyIndex = Math.floor((position - 1) / MAX_PLAYERS_PER_SESSION);
+  const rounds = Math.floor(lobbyIndex / slotsFreeIn.length);
+  const fullGameSeconds = LOBBY_TIMER + QUESTIONS_PER_GAME * (BASE_QUESTION_TIMER + REVEAL_DELAY) + RESULTS_CLEANUP_DELAY;
+  return slotsFreeIn[lobbyIndex % slotsFreeIn.length] + rounds * fullGameSeconds;
+};
+
+// Helper function to tell every queued player their place in line and estimated wait
+const broadcastQueueStatus = () => {
+  waitingQueue.forEach((entry, index) => {
+    io.to(entry.socketId).emit('queue-update', {
+      position: index + 1,
+      queueLength: waitingQueue.length,
+      estimatedWaitSeconds: estimateQueueWaitSeconds(index + 1)
+    });
+  });
+};
+
+// Helper function to put a player who can't be seated right now at the back of the queue
+const enqueuePlayer = (socket, { name, mode, createPrivate, profile }) => {
+  if (waitingQueue.some(entry => entry.socketId === socket.id)) return;
+  if (waitingQueue.length >= MAX_QUEUE_LENGTH) {
+    socket.emit('error', 'SERVER_BUSY');
+    return;
+  }
+  waitingQueue.push({ socketId: socket.id, name, mode, createPrivate: !!createPrivate, profile });
+  console.log(`Player ${name} (${socket.id}) queued at position ${waitingQueue.length}`);
+  broadcastQueueStatus();
+};
+
+// Helper function to take a player out of the queue, e.g. when they give up or disconnect
+const removeFromQueue = (socketId) => {
+  const index = waitingQueue.findIndex(entry => entry.socketId === socketId);
+  if (index === -1) return false;
+  waitingQueue.splice(index, 1);
+  broadcastQueueStatus();
+  return true;
+};
+
+// Helper function to seat queued players, in order, as lobby seats and session slots free up
+const drainWaitingQueue = () => {
+  if (waitingQueue.length === 0) return;
+  let changed = false;
+  for (let i = 0; i < waitingQueue.length;) {
+    const entry = waitingQueue[i];
+    const socket = io.sockets.sockets.get(entry.socketId);
+    let targetSession = socket && !entry.createPrivate ? findOpenPublicLobby(entry.mode) : null;
+    if (socket && !targetSession && canCreateNewSession()) {
+      targetSession = createSession(entry.mode, { isPrivate: entry.createPrivate });
+    }
+    if (socket && !targetSession) {
+      i++;
+      continue;
+    }
+    waitingQueue.splice(i, 1);
+    changed = true;
+    if (targetSession) {
+      console.log(`Seating queued player ${entry.name} (${entry.socketId}) in session ${targetSession.id}`);
+      addPlayerToSession(socket, targetSession, entry.name, entry.profile);
+    }
+  }
+  if (changed) broadcastQueueStatus();
+};
+
+// Helper function to find a session to watch: the room with the given code, otherwise any public game in progress
+const findSessionToSpectate = (roomCode) => {
+  if (roomCode) {
+    const session = findSessionByRoomCode(roomCode);
+    return session && session.status !== 'ended' ? session : null;
+  }
+  for (const session of sessions.values()) {
+    if (!session.isPrivate && session.status === 'playing' && session.spectators.length < MAX_SPECTATORS_PER_SESSION) {
+      return session;
+    }
+  }
+  return null;
+};
+
+// Helper function to turn a question's media attachment into what players load
+const sanitizeMedia = (media) => {
+  if (!media) return null;
+  return {
+    type: media.type,
+    url: `${MEDIA_URL_PATH}/${media.src.split(/[\\/]/).map(encodeURIComponent).join('/')}`,
+    alt: media.alt || ''
+  };
+};
+
+// Helper function to strip answers from a question before it is sent to players
+const sanitizeQuestion = (question) => ({
+  id: question.id,
+  type: question.type,
+  question: question.question,
+  category: question.category,
+  difficulty: question.difficulty,
+  media: sanitizeMedia(question.media),
+  // Same rule validatePowerUp applies, so the client can grey out a 50/50 that would be refused
+  fiftyFiftyAvailable: getQuestionType(question).wrongOptions(question).length > FIFTY_FIFTY_HIDDEN,
+  ...getQuestionType(question).sanitize(question)
+});
+
+// Helper function to get a question as shown once it has ended: answer and explanation included
+const revealQuestion = (question) => ({
+  ...sanitizeQuestion(question),
+  ...getQuestionType(question).reveal(question),
+  explanation: question.explanation || null
+});
+
+// Helper function to count how the room did on one question, including a tally per option
+const summarizeRoomAnswers = (session, questionIndex) => {
+  const question = session.questions[questionIndex];
+  const answers = session.players
+    .map(player => player.answers.find(a => a.questionIndex === questionIndex))
+    .filter(Boolean);
+  return {
+    players: session.players.length,
+    answered: answers.length,
+    correct: answers.filter(a => a.isCorrect).length,
+    counts: getQuestionType(question).tally(question, answers.map(a => a.answer))
+  };
+};
+
+// Helper function to find who got a question right first, or null if nobody did
+const findFastestCorrect = (session, questionIndex) => {
+  let fastest = null;
+  session.players.forEach(player => {
+    const entry = player.answers.find(a => a.questionIndex === questionIndex && a.isCorrect);
+    if (entry && (!fastest || entry.responseTimeMs < fastest.responseTimeMs)) {
+      fastest = { playerId: player.id, name: player.name, responseTimeMs: entry.responseTimeMs };
+    }
+  });
+  return fastest;
+};
+
+// Helper function to build the post-game walk-through of every question that was played
+const buildGameReview = (session) => {
+  const playedCount = Math.min(session.questions.length, session.currentQuestionIndex + 1);
+  return session.questions.slice(0, Math.max(0, playedCount)).map((question, index) => ({
+    questionNumber: index + 1,
+    question: revealQuestion(question),
+    room: summarizeRoomAnswers(session, index),
+    answers: session.players.map(player => {
+      const entry = player.answers.find(a => a.questionIndex === index);
+      return {
+        playerId: player.id,
+        answer: entry ? entry.answer : null,
+        isCorrect: !!entry && entry.isCorrect,
+        points: entry ? entry.points.total : 0
+      };
+    })
+  }));
+};
+
+// Helper function to tell players to preload the next question's media; returns whether it has any
+const preloadUpcomingMedia = (session) => {
+  const upcoming = session.questions[session.currentQuestionIndex + 1];
+  if (!upcoming || !upcoming.media) return false;
+
+  io.to(session.id).emit('media-preload', {
+    questionNumber: session.currentQuestionIndex + 2,
+    media: sanitizeMedia(upcoming.media)
+  });
+  return true;
+};
+
+// Helper function to get the seconds left on a session's lobby countdown
+const getLobbyTimeRemaining = (session) => {
+  return lobbyClock.getLobbyTimeRemaining(session.lobbyStartTime, LOBBY_TIMER);
+};
+
+// Helper function to get the milliseconds left on the current question, honouring a pause
+const getQuestionTimeRemainingMs = (session) => {
+  const remainingMs = session.isPaused ? session.pausedTimeRemaining : session.questionEndTime - Date.now();
+  return Math.max(0, remainingMs);
+};
+
+// Helper function to get the whole seconds left on the current question
+const getQuestionTimeRemaining = (session) => {
+  return Math.ceil(getQuestionTimeRemainingMs(session) / 1000);
+};
+
+// Helper function to get the milliseconds a player has left on the current question, time freeze included
+const getPlayerTimeRemainingMs = (session, player) => {
+  const remainingMs = session.isPaused ? session.pausedTimeRemaining : session.questionEndTime - Date.now();
+  return Math.max(0, remainingMs + player.extraTimeMs);
+};
+
+// Helper function to get how late (ms) a player's answer may arrive, based on their measured latency.
+// The delay measured on this very question wins over the connection's heartbeat average.
+const getAnswerGraceMs = (player) => {
+  const stats = networkMonitor.getStats(player.id);
+  const oneWayDelay = player.questionDelayMs ?? (stats?.averageLatency || 0) / 2;
+  return Math.min(MAX_ANSWER_GRACE, Math.round(ANSWER_GRACE_BASE + oneWayDelay));
+};
+
+// Helper function to check an answer submission; returns a rejection reason, or null if it is accepted
+const validateAnswerSubmission = (session, player, answer, questionIndex) => {
+  if (session.status !== 'playing') return 'NOT_PLAYING';
+  
+  const currentQuestion = session.questions[session.currentQuestionIndex];
+  if (!currentQuestion || session.isRevealing) return 'QUESTION_CLOSED';
+  if (questionIndex !== undefined && questionIndex !== session.currentQuestionIndex) return 'QUESTION_CLOSED';
+  
+  if (player.eliminatedOnQuestion !== null) return 'ELIMINATED';
+  if (player.answers.some(a => a.questionIndex === session.currentQuestionIndex)) return 'DUPLICATE_ANSWER';
+  
+  if (!getQuestionType(currentQuestion).isValidAnswer(currentQuestion, answer)) return 'INVALID_ANSWER';
+  
+  if (!session.isPaused && Date.now() > session.questionEndTime + player.extraTimeMs + getAnswerGraceMs(player)) return 'TOO_LATE';
+  
+  return null;
+};
+
+// Helper function to check a power-up request; returns a rejection reason, or null if it may be used
+const validatePowerUp = (session, player, powerUp, questionIndex) => {
+  if (!POWER_UPS.includes(powerUp)) return 'UNKNOWN_POWER_UP';
+  if (player.usedPowerUps.includes(powerUp)) return 'ALREADY_USED';
+  if (session.status !== 'playing') return 'NOT_PLAYING';
+  if (player.eliminatedOnQuestion !== null) return 'ELIMINATED';
+  
+  const currentQuestion = session.questions[session.currentQuestionIndex];
+  if (!currentQuestion || session.isRevealing) return 'QUESTION_CLOSED';
+  if (questionIndex !== undefined && questionIndex !== session.currentQuestionIndex) return 'QUESTION_CLOSED';
+  if (getPlayerTimeRemainingMs(session, player) <= 0) return 'QUESTION_CLOSED';
+  
+  if (player.answers.some(a => a.questionIndex === session.currentQuestionIndex)) return 'ALREADY_ANSWERED';
+  
+  const questionType = getQuestionType(currentQuestion);
+  // A 50/50 always leaves at least one wrong option next to the right ones
+  if (powerUp === 'fiftyFifty' && questionType.wrongOptions(currentQuestion).length <= FIFTY_FIFTY_HIDDEN) return 'NOT_AVAILABLE';
+  if (powerUp === 'pollRoom' && !questionType.pollable) return 'NOT_AVAILABLE';
+  
+  return null;
+};
+
+// Helper function to use up a validated power-up; returns what only this player gets to see
+const activatePowerUp = (session, player, powerUp) => {
+  const currentQuestion = session.questions[session.currentQuestionIndex];
+  player.usedPowerUps.push(powerUp);
+  
+  switch (powerUp) {
+    case 'fiftyFifty': {
+      const wrongOptions = getQuestionType(currentQuestion).wrongOptions(currentQuestion);
+      const hiddenOptions = QuestionProvider.shuffle(wrongOptions).slice(0, FIFTY_FIFTY_HIDDEN);
+      return { hiddenOptions: hiddenOptions.sort((a, b) => a - b) };
+    }
+    case 'doublePoints':
+      player.doublePointsArmed = true;
+      return {};
+    case 'timeFreeze':
+      player.extraTimeMs += TIME_FREEZE_SECONDS * 1000;
+      return { extraSeconds: TIME_FREEZE_SECONDS };
+    case 'pollRoom': {
+      // What the room has picked so far, without saying how many were right. Player broadcasts
+      // leave open answers out, so this tally is the only look at the picks before the reveal.
+      const { players, answered, counts } = summarizeRoomAnswers(session, session.currentQuestionIndex);
+      return { poll: { players, answered, counts } };
+    }
+    default:
+      return {};
+  }
+};
+
+// Helper function to build the gameState payload broadcast to a session
+const buildGameState = (session) => {
+  const currentQuestion = session.status === 'playing' ? session.questions[session.currentQuestionIndex] : null;
+  return {
+    sessionId: session.id,
+    gameState: session.status,
+    mode: session.mode,
+    isPrivate: session.isPrivate,
+    roomCode: session.roomCode,
+    isPaused: !!session.isPaused,
+    players: session.players.map(player => buildPublicPlayer(session, player)),
+    spectatorCount: session.spectators.length,
+    hasPresenter: session.spectators.some(s => s.isPresenter),
+    currentQuestion: currentQuestion ? sanitizeQuestion(currentQuestion) : null,
+    questionNumber: session.currentQuestionIndex + 1,
+    totalQuestions: session.questions.length || session.settings.questionCount,
+    timeLimit: currentQuestion ? session.questionTimeLimit : 0,
+    timeRemaining: currentQuestion ? getQuestionTimeRemaining(session) : 0,
+    questionEndTime: currentQuestion && !session.isPaused ? session.questionEndTime : null,
+    answeredCount: currentQuestion ? summarizeRoomAnswers(session, session.currentQuestionIndex).answered : 0,
+    lobbyTimeRemaining: session.status === 'lobby' ? getLobbyTimeRemaining(session) : 0,
+    lobbyEndTime: session.status === 'lobby' ? session.lobbyStartTime + LOBBY_TIMER * 1000 : null,
+    results: [],
+    teams: getSessionTeams(session),
+    teamStandings: buildTeamStandings(session),
+    settings: session.settings,
+    settingsOptions: session.status === 'lobby' ? {
+      categories: Object.keys(questionProvider.getCategories()).sort(),
+      difficulties: SETTINGS_DIFFICULTIES,
+      timerModes: SETTINGS_TIMER_MODES,
+      teamScorings: SETTINGS_TEAM_SCORING,
+      limits: SETTINGS_LIMITS
+    } : null
+  };
+};
+
+// Helper function to average the players' measured latencies; players with no answered heartbeat yet don't count
+const getAverageLatency = (session) => {
+  const latencies = session.players
+    .map(p => networkMonitor.getStats(p.id))
+    .filter(stats => stats && stats.history.length > 0)
+    .map(stats => stats.averageLatency);
+  return latencies.length > 0 ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length) : 0;
+};
+
+// Function to calculate the adaptive question timer. Slow connections get their own late-answer
+// allowance (getAnswerGraceMs) rather than a longer timer for the whole room, so the room keeps
+// the base timer; the players' average latency is logged alongside it.
 const calculateAdaptiveTimer = (sessionId) => {
   const session = sessions.get(sessionId);
   if (!session) {
     console.warn(`Adaptive timer: no session ${sessionId}, using base ${BASE_QUESTION_TIMER}s`);
     return BASE_QUESTION_TIMER;
   }
-  // Gather avg latency
-  const statsArr = session.players.map(p => networkMonitor.getStats(p.id));
-  const totalLatency = statsArr.reduce((sum, s) => sum + (s?.averageLatency || 0), 0);
-  const avgLatency = session.players.length > 0 ? totalLatency / session.players.length : 0;
-  let resultTime;
-  if (avgLatency <= 100) {
-    resultTime = MIN_QUESTION_TIMER;
-  } else if (avgLatency >= 500) {
-    resultTime = MAX_QUESTION_TIMER;
-  } else {
-    const fraction = (avgLatency - 100) / (500 - 100);
-    const timer = MIN_QUESTION_TIMER + fraction * (MAX_QUESTION_TIMER - MIN_QUESTION_TIMER);
-    resultTime = Math.round(timer);
-  }
-  console.log(`Adaptive timer for session ${sessionId}: ${resultTime}s (avgLatency ${avgLatency}ms)`);
-  return resultTime;
+  console.log(`Adaptive timer for session ${sessionId}: ${BASE_QUESTION_TIMER}s (avgLatency ${getAverageLatency(session)}ms)`);
+  return BASE_QUESTION_TIMER;
 };
 
 // Helper function to validate session data
@@ -166,9 +996,11 @@ const saveSessionState = (sessionId) => {
       ...session,
       players: session.players.map(player => ({
         ...player,
-        answers: [...player.answers]
+        answers: [...player.answers],
+        usedPowerUps: [...player.usedPowerUps]
       })),
-      questions: [...session.questions]
+      questions: [...session.questions],
+      timerDecisions: [...session.timerDecisions]
     });
   } catch (error) {
     console.error(`Error saving session state for ${sessionId}:`, error);
@@ -201,9 +1033,11 @@ const recoverSessionState = (sessionId) => {
       ...savedState,
       players: savedState.players.map(player => ({
         ...player,
-        answers: [...player.answers]
+        answers: [...player.answers],
+        usedPowerUps: [...player.usedPowerUps]
       })),
-      questions: [...savedState.questions]
+      questions: [...savedState.questions],
+      timerDecisions: [...savedState.timerDecisions]
     };
 
     sessions.set(sessionId, recoveredSession);
@@ -221,16 +1055,38 @@ const mergeSessions = (sessionId1, sessionId2) => {
   
   if (!session1 || !session2) return false;
   
+  // Private rooms are only ever joined by code, never merged
+  if (session1.isPrivate || session2.isPrivate) return false;
+  
   // Only merge if both sessions are in lobby state
   if (session1.status !== 'lobby' || session2.status !== 'lobby') return false;
   
-  // Merge players from session2 into session1
+  // Only merge lobbies of the same mode whose players fit within session1's player cap
+  if (session1.mode !== session2.mode) return false;
+  if (session1.players.length + session2.players.length > session1.settings.maxPlayers) return false;
+  
+  // session2's lobby is going away; session1's host stays in charge
+  if (session2.lobbyTimer) {
+    clearTimeout(session2.lobbyTimer);
+  }
+  session2.players.forEach(p => { p.isHost = false; });
+  
+  // Merge players and spectators from session2 into session1
   session1.players = [...session1.players, ...session2.players];
+  session1.spectators = [...session1.spectators, ...session2.spectators];
+  
+  // Moved players join session1's teams, if it plays in teams
+  balanceTeams(session1);
+  
+  // Resume tokens of the moved players now point at session1
+  for (const identity of playerIdentities.values()) {
+    if (identity.sessionId === sessionId2) {
+      identity.sessionId = sessionId1;
+    }
+  }
   
   // Update the lobby timer to the longer remaining time
-  const time1 = Math.max(0, LOBBY_TIMER - Math.floor((Date.now() - session1.lobbyStartTime) / 1000));
-  const time2 = Math.max(0, LOBBY_TIMER - Math.floor((Date.now() - session2.lobbyStartTime) / 1000));
-  session1.lobbyStartTime = Date.now() - (Math.max(time1, time2) * 1000);
+  session1.lobbyStartTime = lobbyClock.getMergedLobbyStartTime(session1.lobbyStartTime, session2.lobbyStartTime, LOBBY_TIMER);
   
   // Notify all players in both sessions about the merge
   io.to(sessionId1).emit('session-merged', {
@@ -245,14 +1101,47 @@ const mergeSessions = (sessionId1, sessionId2) => {
   
   // Move all sockets from session2 to session1
   io.in(sessionId2).socketsJoin(sessionId1);
+  io.in(sessionId2).socketsLeave(sessionId2);
   
   // Clean up session2
   sessions.delete(sessionId2);
   sessionStates.delete(sessionId2);
+  console.log(`Merged session ${sessionId2} into ${sessionId1}`);
+  
+  // Players who were all ready on their own shouldn't have to ready up again
+  if (session1.players.length > 1 && session1.players.every(p => p.isReady)) {
+    if (session1.lobbyTimer) clearTimeout(session1.lobbyTimer);
+    startGame(sessionId1);
+  } else {
+    io.to(sessionId1).emit('gameState', buildGameState(session1));
+  }
   
   return true;
 };
 
+// Helper function to combine under-filled public lobbies of the same mode whose players fit together.
+// Fuller lobbies absorb emptier ones, so the fewest players have to move.
+const mergeUnderfilledLobbies = () => {
+  const lobbies = [...sessions.values()]
+    .filter(s => !s.isPrivate && s.status === 'lobby' && s.players.length > 0)
+    .sort((a, b) => b.players.length - a.players.length);
+  const mergedIds = new Set();
+  
+  lobbies.forEach((target, i) => {
+    if (mergedIds.has(target.id)) return;
+    for (const source of lobbies.slice(i + 1)) {
+      if (mergedIds.has(source.id) || source.mode !== target.mode) continue;
+      if (target.status !== 'lobby') break; // the merge just started the game
+      if (mergeSessions(target.id, source.id)) {
+        mergedIds.add(source.id);
+      }
+    }
+  });
+  
+  // Every merge frees a session slot for someone waiting
+  if (mergedIds.size > 0) drainWaitingQueue();
+};
+
 // Function to start the lobby timer for a session
 function startLobbyTimer(sessionId) {
   const session = sessions.get(sessionId);
@@ -281,23 +1170,28 @@ function startGame(sessionId) {
   
   // Update session status
   session.status = 'playing';
+  session.startedAt = Date.now();
+  session.currentQuestionIndex = -1;
+  session.timerDecisions = [];
+  session.questions = selectQuestionsForSession(session);
+  session.players.forEach(player => {
+    player.lives = session.settings.survivalMode ? session.settings.lives : null;
+    player.eliminatedOnQuestion = null;
+  });
+  questionProvider.rememberQuestions(session.players.map(getPlayerHistoryKey), session.questions.map(q => q.id));
   
   // Notify all players
-  io.to(sessionId).emit('gameState', {
-  sessionId: sessionId,
-    gameState: 'playing',
-    players: session.players,
-    currentQuestion: null,
-    questionNumber: 0,
-    totalQuestions: QUESTIONS_PER_GAME,
-    timeLimit: 0,
-    timeRemaining: 0,
-    lobbyTimeRemaining: 0,
-    results: []
-  });
+  io.to(sessionId).emit('gameState', buildGameState(session));
+  
+  // Give clients a moment to load the first question's media so everyone sees it together.
+  // The lead-in behaves like a reveal gap, so skipQuestion and endGame handle it already.
+  if (preloadUpcomingMedia(session)) {
+    session.isRevealing = true;
+    session.revealTimer = setTimeout(() => nextQuestion(sessionId), MEDIA_PRELOAD_LEAD * 1000);
+    return;
+  }
   
   // Start the first question
-  session.currentQuestionIndex = -1;
   nextQuestion(sessionId);
 }
 
@@ -306,6 +1200,15 @@ function nextQuestion(sessionId) {
   const session = sessions.get(sessionId);
   if (!session) return;
   
+  session.revealTimer = null;
+  session.isRevealing = false;
+  
+  // A survival game stops as soon as one player is left standing
+  if (isSurvivalOver(session)) {
+    endGame(sessionId);
+    return;
+  }
+  
   session.currentQuestionIndex++;
   
   // Check if we've reached the end of questions
@@ -315,77 +1218,240 @@ function nextQuestion(sessionId) {
   }
   
   const currentQuestion = session.questions[session.currentQuestionIndex];
-  const questionTimeLimit = calculateAdaptiveTimer(sessionId);
+  const questionTimeLimit = session.settings.timerMode === 'fixed'
+    ? session.settings.questionTimer
+    : calculateAdaptiveTimer(sessionId);
+  
+  session.timerDecisions.push({
+    questionIndex: session.currentQuestionIndex,
+    averageLatency: getAverageLatency(session),
+    timerMode: session.settings.timerMode,
+    timeLimit: questionTimeLimit,
+    decidedAt: Date.now()
+  });
   
   // Set question start and end times
+  session.questionTimeLimit = questionTimeLimit;
   session.questionStartTime = Date.now();
   session.questionEndTime = Date.now() + (questionTimeLimit * 1000);
+  // A time freeze and the measured delivery delay only apply to the question they were for
+  session.players.forEach(player => {
+    player.extraTimeMs = 0;
+    player.questionDelayMs = null;
+  });
   
   // Send the question to all players (without the correct answer)
   console.log(`Emitting question ${session.currentQuestionIndex + 1} for session ${sessionId} with timeLimit ${questionTimeLimit}s`);
-  const questionForPlayers = {
-    id: currentQuestion.id,
-    question: currentQuestion.question,
-    options: currentQuestion.options
-  };
+  const questionForPlayers = sanitizeQuestion(currentQuestion);
   
   io.to(sessionId).emit('question', { 
     question: questionForPlayers,
     questionNumber: session.currentQuestionIndex + 1,
     totalQuestions: session.questions.length,
     timeLimit: questionTimeLimit,
-    timeRemaining: questionTimeLimit
+    timeRemaining: questionTimeLimit,
+    questionEndTime: session.questionEndTime // server clock, so clients can count down to it
   });
+  preloadUpcomingMedia(session);
   
-  // Setup timer sync interval - send updates every second to keep clients in sync
-  if (session.timerInterval) {
-    clearInterval(session.timerInterval);
-  }
+  // Queue estimates are based on how far running games have got
+  broadcastQueueStatus();
   
-  session.timerInterval = setInterval(() => {
-    const timeRemaining = Math.max(0, Math.ceil((session.questionEndTime - Date.now()) / 1000));
-    
-    // Send timer update to all clients
-    io.to(sessionId).emit('timer-update', {
-      timeRemaining: timeRemaining
-    });
-    
-    // If timer reaches 0, clear the interval
-    if (timeRemaining <= 0) {
-      clearInterval(session.timerInterval);
-    }
-  }, 1000);
+  startQuestionTimers(sessionId);
+}
+
+// Function to end the current question once session.questionEndTime has passed. Clients
+// count down to questionEndTime themselves, so no per-second updates are sent.
+function startQuestionTimers(sessionId) {
+  const session = sessions.get(sessionId);
+  if (!session) return;
   
   // Start the question timer
   if (session.questionTimer) {
     clearTimeout(session.questionTimer);
   }
   
+  // Hold the reveal until the last player's deadline, time freezes and late-answer allowance included, has passed
+  const answerGraceMs = Math.max(0, ...session.players.map(p => p.extraTimeMs + getAnswerGraceMs(p)));
+  
   session.questionTimer = setTimeout(() => {
     // Time's up for this question, show the answer
     console.log(`Question ${session.currentQuestionIndex + 1} timer expired, sending answer for session ${sessionId}`);
-    const questionWithAnswer = {
-      ...currentQuestion,
-      correctOption: currentQuestion.correctOption
-    };
-    
-    // Clear the timer sync interval
-    if (session.timerInterval) {
-      clearInterval(session.timerInterval);
-      session.timerInterval = null;
+    endQuestion(sessionId);
+  }, Math.max(0, session.questionEndTime - Date.now()) + answerGraceMs);
+}
+
+// Function to reveal the current question's answer and schedule the next question.
+// A question the host skipped costs nobody a survival life.
+function endQuestion(sessionId, { skipped = false } = {}) {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+  
+  clearQuestionTimers(session);
+  session.isPaused = false;
+  session.isRevealing = true;
+  
+  // A missed question breaks the answer streak
+  session.players.forEach(player => {
+    if (!player.answers.some(a => a.questionIndex === session.currentQuestionIndex)) {
+      player.streak = 0;
     }
-    
-    io.to(sessionId).emit('question-ended', { 
-      question: questionWithAnswer
-    });
-    console.log(`Emitted question-ended for question ${session.currentQuestionIndex + 1} in session ${sessionId}`);
-    
-    // Wait 3 seconds before moving to the next question
-    setTimeout(() => {
-      nextQuestion(sessionId);
-    }, 3000);
-    
-  }, questionTimeLimit * 1000);
+  });
+  
+  const currentQuestion = session.questions[session.currentQuestionIndex];
+  const eliminated = session.settings.survivalMode && !skipped ? applySurvivalLosses(session) : [];
+  
+  // Show everyone how the room split, who was quickest and who is out
+  io.to(sessionId).emit('question-ended', { 
+    question: revealQuestion(currentQuestion),
+    room: summarizeRoomAnswers(session, session.currentQuestionIndex),
+    fastestCorrect: findFastestCorrect(session, session.currentQuestionIndex),
+    eliminated
+  });
+  console.log(`Emitted question-ended for question ${session.currentQuestionIndex + 1} in session ${sessionId}`);
+  
+  // The question's points now count towards the team totals, and lost lives show on the board
+  if (session.settings.teamMode || session.settings.survivalMode) {
+    io.to(sessionId).emit('leaderboard', buildLeaderboard(session));
+  }
+  
+  // Show the answer for the reveal delay before moving to the next question
+  session.revealTimer = setTimeout(() => {
+    nextQuestion(sessionId);
+  }, session.settings.revealDelay * 1000);
+}
+
+// Helper function to stop every running question and reveal timer of a session
+function clearQuestionTimers(session) {
+  if (session.questionTimer) {
+    clearTimeout(session.questionTimer);
+    session.questionTimer = null;
+  }
+  if (session.revealTimer) {
+    clearTimeout(session.revealTimer);
+    session.revealTimer = null;
+  }
+}
+
+// Function to freeze the current question's countdown
+function pauseQuestion(sessionId) {
+  const session = sessions.get(sessionId);
+  if (!session || session.status !== 'playing' || session.isPaused || session.isRevealing) return;
+  
+  clearQuestionTimers(session);
+  session.isPaused = true;
+  session.pausedTimeRemaining = Math.max(0, session.questionEndTime - Date.now());
+  
+  console.log(`Question ${session.currentQuestionIndex + 1} paused in session ${sessionId}`);
+  io.to(sessionId).emit('game-paused', {
+    timeRemaining: Math.ceil(session.pausedTimeRemaining / 1000)
+  });
+}
+
+// Function to continue a paused question with the time it had left
+function resumeQuestion(sessionId) {
+  const session = sessions.get(sessionId);
+  if (!session || !session.isPaused) return;
+  
+  session.isPaused = false;
+  session.questionEndTime = Date.now() + session.pausedTimeRemaining;
+  
+  console.log(`Question ${session.currentQuestionIndex + 1} resumed in session ${sessionId}`);
+  io.to(sessionId).emit('game-resumed', {
+    timeRemaining: Math.ceil(session.pausedTimeRemaining / 1000),
+    questionEndTime: session.questionEndTime
+  });
+  startQuestionTimers(sessionId);
+}
+
+// Function to skip ahead: reveal a running question, or cut a reveal short
+function skipQuestion(sessionId) {
+  const session = sessions.get(sessionId);
+  if (!session || session.status !== 'playing') return;
+  
+  console.log(`Question ${session.currentQuestionIndex + 1} skipped in session ${sessionId}`);
+  if (session.isRevealing) {
+    clearQuestionTimers(session);
+    nextQuestion(sessionId);
+  } else {
+    endQuestion(sessionId, { skipped: true });
+  }
+}
+
+// Helper function to hand the host role to the next connected player
+function transferHost(session, previousHost) {
+  const candidates = session.players.filter(p => p !== previousHost);
+  const newHost = candidates.find(p => !p.isAway) || candidates[0];
+  if (!newHost) return;
+  
+  previousHost.isHost = false;
+  newHost.isHost = true;
+  console.log(`Host of session ${session.id} transferred to ${newHost.name}`);
+}
+
+// Function to keep a dropped player in a running game for a grace period so they can resume
+function markPlayerAway(sessionId, playerId) {
+  const session = sessions.get(sessionId);
+  const player = session && session.players.find(p => p.id === playerId);
+  const identity = findPlayerIdentity(sessionId, playerId);
+  if (!player || !identity) {
+    removePlayerFromSession(sessionId, playerId);
+    return;
+  }
+  
+  player.isAway = true;
+  if (player.isHost) {
+    transferHost(session, player);
+  }
+  
+  console.log(`Player ${player.name} is away from session ${sessionId}; holding their seat for ${RECONNECT_GRACE_PERIOD}s`);
+  identity.awayTimer = setTimeout(() => {
+    console.log(`Player ${player.name} did not return to session ${sessionId} in time`);
+    removePlayerFromSession(sessionId, identity.playerId);
+  }, RECONNECT_GRACE_PERIOD * 1000);
+  
+  io.to(sessionId).emit('leaderboard', buildLeaderboard(session));
+}
+
+// Function to remove a player from a session, handing the host role on if needed
+function removePlayerFromSession(sessionId, playerId) {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+  
+  const playerIndex = session.players.findIndex(p => p.id === playerId);
+  if (playerIndex === -1) return;
+  
+  const [removedPlayer] = session.players.splice(playerIndex, 1);
+  
+  // If no players left, remove the session and send any spectators home
+  if (session.players.length === 0) {
+    clearQuestionTimers(session);
+    if (session.lobbyTimer) {
+      clearTimeout(session.lobbyTimer);
+    }
+    io.to(sessionId).emit('error', 'SESSION_CLOSED');
+    io.in(sessionId).socketsLeave(sessionId);
+    sessions.delete(sessionId);
+    sessionStates.delete(sessionId);
+    releasePlayerIdentities(sessionId);
+    console.log(`Session ${sessionId} removed after last player left`);
+    drainWaitingQueue();
+    return;
+  }
+  
+  releasePlayerIdentities(sessionId, playerId);
+  
+  if (removedPlayer.isHost) {
+    transferHost(session, removedPlayer);
+  }
+  
+  // Update remaining players; a freed lobby seat can go to someone in the queue
+  if (session.status === 'lobby') {
+    io.to(sessionId).emit('gameState', buildGameState(session));
+    drainWaitingQueue();
+  } else {
+    io.to(sessionId).emit('leaderboard', buildLeaderboard(session));
+  }
 }
 
 // Function to end the game and show results
@@ -395,154 +1461,195 @@ function endGame(sessionId) {
   
   console.log(`Game ended for session ${sessionId}`);
   
+  // Stop any question still running if the game was ended early
+  clearQuestionTimers(session);
+  session.isPaused = false;
+  
   // Update session status
   session.status = 'ended';
+  session.endedAt = Date.now();
   
-  // Calculate final scores and ranks
-  const playerResults = session.players
-    .map(player => ({
-      id: player.id,
-      name: player.name,
-      score: player.score,
-      correctAnswers: player.answers.filter(a => a.isCorrect).length
-    }))
-    .sort((a, b) => b.score - a.score);
+  // Calculate final scores and ranks (handling ties); survival games rank by who lasted longest
+  const results = session.players.map(player => ({
+    id: player.id,
+    name: player.name,
+    score: player.score,
+    correctAnswers: player.answers.filter(a => a.isCorrect).length,
+    teamId: player.teamId,
+    eliminatedOnQuestion: player.eliminatedOnQuestion
+  }));
+  const playerResults = session.settings.survivalMode
+    ? rankBySurvival(results)
+    : rankByScore(results.sort((a, b) => b.score - a.score));
   
-  // Assign ranks (handling ties)
-  let currentRank = 1;
-  let previousScore = -1;
-  let playersWithCurrentRank = 0;
-  
-  playerResults.forEach((player, index) => {
-    if (player.score < previousScore) {
-      currentRank += playersWithCurrentRank;
-      playersWithCurrentRank = 1;
-    } else if (player.score === previousScore) {
-      playersWithCurrentRank++;
-    } else {
-      playersWithCurrentRank = 1;
+  // Keep the results once at least one question was played; a storage failure mustn't stop the game ending
+  if (session.currentQuestionIndex >= 0) {
+    try {
+      gameStore.recordGame(buildGameRecord(session, playerResults));
+    } catch (error) {
+      console.error(`Error recording game ${sessionId}:`, error);
     }
-    
-    player.rank = currentRank;
-    previousScore = player.score;
-  });
+  }
   
-  // Send results to all players
-  io.to(sessionId).emit('game-ended', { results: playerResults });
+  // Send results and the question-by-question review to all players
+  io.to(sessionId).emit('game-ended', {
+    results: playerResults,
+    teams: buildTeamStandings(session),
+    review: buildGameReview(session)
+  });
   
-  // Schedule session cleanup after 30 seconds to allow players to view results
+  // Schedule session cleanup to allow players to view results, then hand the slot to the queue
   setTimeout(() => {
     if (sessions.has(sessionId)) {
       sessions.delete(sessionId);
+      sessionStates.delete(sessionId);
+      releasePlayerIdentities(sessionId);
       console.log(`Session ${sessionId} removed after game ended`);
+      drainWaitingQueue();
     }
-  }, 30000);
+  }, RESULTS_CLEANUP_DELAY * 1000);
 }
 
 // Start the server
 server.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
   isServerRunning = true;
+  sessionMergeInterval = setInterval(mergeUnderfilledLobbies, SESSION_MERGE_INTERVAL * 1000);
+  adminStatsInterval = setInterval(broadcastAdminStats, ADMIN_STATS_INTERVAL * 1000);
 });
 
 // Socket connection handling
 io.on('connection', (socket) => {
   console.log('Client connected:', socket.id);
-  networkMonitor.startMonitoring(socket.id);
-
-  // Network monitoring - handle pings
-  socket.on('ping', () => {
-    const stats = networkMonitor.getStats(socket.id);
-    socket.emit('pong', {
-      latency: stats?.averageLatency || 0,
-      packetLoss: stats?.packetLoss || 0
-    });
-  });
+  // The monitor runs its own heartbeat with this socket and reports back with network-stats
+  networkMonitor.startMonitoring(socket);
 
   // Handle player joining
-  socket.on('join', ({ name, mode }) => {
-    console.log(`Player ${name} (${socket.id}) joining game`);
-    
-    const now = Date.now();
-
-    // Check if we've reached the maximum number of sessions
-    if (sessions.size >= MAX_SESSIONS && !canPlayerJoinExistingSession(mode)) {
-      socket.emit('error', 'SERVER_BUSY');
+  // roomCode joins a private room; createPrivate opens a new one instead of matchmaking
+  // profile is the client's { token, avatar, color }, kept across visits for stats and leaderboards
+  socket.on('join', ({ name, mode, roomCode, createPrivate, profile } = {}) => {
+    if (typeof name !== 'string' || !name.trim()) {
+      socket.emit('error', 'INVALID_NAME');
       return;
     }
+    name = name.trim();
+    console.log(`Player ${name} (${socket.id}) joining game`);
     
-    // Find an available session or create a new one
     let targetSession = null;
-    for (const [sessionId, session] of sessions) {
-      if (session.status === 'lobby' && session.players.length < 4 && session.mode === mode && (now - session.lobbyStartTime) <= LOBBY_TIMER * 1000) {
-        targetSession = session;
-        break;
+
+    if (roomCode) {
+      targetSession = findSessionByRoomCode(roomCode);
+      if (!targetSession) {
+        socket.emit('error', 'ROOM_NOT_FOUND');
+        return;
       }
-    }
+      if (targetSession.status !== 'lobby') {
+        socket.emit('error', 'ROOM_IN_PROGRESS');
+        return;
+      }
+      if (targetSession.players.length >= targetSession.settings.maxPlayers) {
+        socket.emit('error', 'ROOM_FULL');
+        return;
+      }
+    } else if (createPrivate) {
+      if (canCreateNewSession()) {
+        targetSession = createSession(mode, { isPrivate: true });
+      }
+    } else {
+      // Find an available public session or create a new one
+      targetSession = findOpenPublicLobby(mode);
 
-    if (!targetSession && canCreateNewSession()) {
-      const sessionId = generateSessionId();
-      targetSession = {
-        mode,
-        id: sessionId,
-        status: 'lobby',
-        players: [],
-        questions: selectRandomQuestions(QUESTIONS_PER_GAME),
-        currentQuestionIndex: -1,
-        lobbyStartTime: Date.now()
-      };
-      sessions.set(sessionId, targetSession);
-      console.log(`Created new session: ${sessionId}`);
+      if (!targetSession && canCreateNewSession()) {
+        targetSession = createSession(mode);
+      }
     }
 
+    const playerProfile = resolveProfile(profile, name);
     if (targetSession) {
-      // Add player to session
-      const player = {
-        id: socket.id,
-        name,
-        score: 0,
-        answers: [],
-        isReady: false,
-        isHost: targetSession.players.length === 0
-      };
-      targetSession.players.push(player);
+      addPlayerToSession(socket, targetSession, name, playerProfile);
+    } else {
+      // Every slot is taken: wait in line for the next lobby instead of being turned away
+      enqueuePlayer(socket, { name, mode, createPrivate, profile: playerProfile });
+    }
+  });
 
-      // Join socket room
-      socket.join(targetSession.id);
+  // Handle a queued player giving up on waiting
+  socket.on('leaveQueue', () => {
+    if (removeFromQueue(socket.id)) {
+      console.log(`Player ${socket.id} left the queue`);
+    }
+  });
 
-      // Start lobby timer if this is the first player
-      if (targetSession.players.length === 1) {
-        startLobbyTimer(targetSession.id);
-      }
+  // Handle someone watching a game without playing: by room code, or any public game in progress.
+  // A presenter is a spectator driving the big screen; players switch to a compact answer pad.
+  socket.on('spectate', ({ name, roomCode, presenter } = {}) => {
+    if ((roomCode !== undefined && typeof roomCode !== 'string') || (name !== undefined && typeof name !== 'string')) {
+      socket.emit('error', 'INVALID_REQUEST');
+      return;
+    }
+    const session = findSessionToSpectate(roomCode);
+    if (!session) {
+      socket.emit('error', roomCode ? 'ROOM_NOT_FOUND' : 'NO_GAMES_TO_WATCH');
+      return;
+    }
+    if (session.spectators.some(s => s.id === socket.id)) return;
+    if (session.spectators.length >= MAX_SPECTATORS_PER_SESSION) {
+      socket.emit('error', 'SPECTATORS_FULL');
+      return;
+    }
 
-      // Send game state to all players in the session
-      io.to(targetSession.id).emit('gameState', {
-        sessionId: targetSession.id,
-        gameState: 'lobby',
-        players: targetSession.players,
-        currentQuestion: null,
-        questionNumber: 0,
-        totalQuestions: QUESTIONS_PER_GAME,
-        timeLimit: 0,
-        timeRemaining: 0,
-        lobbyTimeRemaining: Math.max(0, LOBBY_TIMER - Math.floor((Date.now() - targetSession.lobbyStartTime) / 1000)),
-        results: []
-      });
+    const isPresenter = !!presenter;
+    session.spectators.push({ id: socket.id, name: name?.trim() || (isPresenter ? 'Presenter' : 'Spectator'), isPresenter });
+    socket.join(session.id);
+    console.log(`${isPresenter ? 'Presenter' : 'Spectator'} ${name} (${socket.id}) watching session ${session.id}`);
+
+    socket.emit('spectating', { sessionId: session.id, isPresenter });
+    if (isPresenter) {
+      io.to(session.id).emit('presenter-changed', { hasPresenter: true });
+    }
+    // Only resend everyone's state in the lobby; mid-game it would reset the players' screens
+    if (session.status === 'lobby') {
+      io.to(session.id).emit('gameState', buildGameState(session));
     } else {
-      socket.emit('error', 'SERVER_BUSY');
+      socket.emit('gameState', buildGameState(session));
     }
   });
 
-  // Helper function to check if player can join an existing session
-  function canPlayerJoinExistingSession(mode) {
-    const now = Date.now();
-    for (const [sessionId, session] of sessions) {
-      if (session.status === 'lobby' && session.players.length < 4 && session.mode === mode && (now - session.lobbyStartTime) <= LOBBY_TIMER * 1000) {
-        return true;
-      }
+  // Handle a returning player reclaiming their seat with a resume token
+  socket.on('resume', ({ resumeToken } = {}) => {
+    const identity = typeof resumeToken === 'string' ? playerIdentities.get(resumeToken) : null;
+    const session = identity && sessions.get(identity.sessionId);
+    const player = session && session.players.find(p => p.id === identity.playerId);
+    if (!player || session.status === 'ended') {
+      console.log(`Resume rejected for socket ${socket.id}`);
+      socket.emit('resume-failed');
+      return;
     }
-    return false;
-  }
+
+    if (identity.awayTimer) {
+      clearTimeout(identity.awayTimer);
+      identity.awayTimer = null;
+    }
+
+    // The old socket may not have been noticed as dropped yet
+    const previousId = player.id;
+    if (previousId !== socket.id) {
+      io.in(previousId).socketsLeave(session.id);
+      socket.to(session.id).emit('video-peer-leave', { peerId: previousId });
+    }
+
+    player.id = socket.id;
+    player.isAway = false;
+    identity.playerId = socket.id;
+    socket.join(session.id);
+    console.log(`Player ${player.name} resumed in session ${session.id} as ${socket.id}`);
+
+    // Current question, remaining time, score and leaderboard all travel in the game state;
+    // the player's own answers to the open question come separately, as only they may see them
+    socket.emit('gameState', buildGameState(session));
+    socket.emit('playerUpdate', player);
+    socket.to(session.id).emit('leaderboard', buildLeaderboard(session));
+  });
 
   // --- WebRTC Video Signaling Events ---
   // Relay video-offer, video-answer, video-ice-candidate, video-peer-join, video-peer-leave
@@ -579,18 +1686,7 @@ io.on('connection', (socket) => {
           startGame(sessionId);
         } else {
           // Emit updated lobby state (no correctOption)
-          io.to(sessionId).emit('gameState', {
-  sessionId: sessionId,
-            gameState: 'lobby',
-            players: session.players,
-            currentQuestion: null,
-            questionNumber: 0,
-            totalQuestions: QUESTIONS_PER_GAME,
-            timeLimit: 0,
-            timeRemaining: 0,
-            lobbyTimeRemaining: Math.max(0, LOBBY_TIMER - Math.floor((Date.now() - session.lobbyStartTime) / 1000)),
-            results: []
-          });
+          io.to(sessionId).emit('gameState', buildGameState(session));
         }
         break;
       }
@@ -598,7 +1694,7 @@ io.on('connection', (socket) => {
   });
 
   // Handle answer submission
-  socket.on('submitAnswer', ({ answer }) => {
+  socket.on('submitAnswer', ({ answer, questionIndex } = {}) => {
     let playerSession = null;
     let playerObject = null;
 
@@ -614,92 +1710,319 @@ io.on('connection', (socket) => {
 
     if (!playerSession || !playerObject) {
       console.log(`Player ${socket.id} not found in any session for answer submission`);
+      socket.emit('answer-rejected', { reason: 'NOT_PLAYING', questionIndex });
+      return;
+    }
+
+    // A submission without an answer, or naming a question by anything but its index, is malformed
+    if (answer === undefined || (questionIndex !== undefined && !Number.isInteger(questionIndex))) {
+      socket.emit('answer-rejected', { reason: 'INVALID_ANSWER', questionIndex: playerSession.currentQuestionIndex });
       return;
     }
 
-    console.log(`Player ${playerObject.name} submitted answer ${answer} for question ${playerSession.currentQuestionIndex + 1}`);
+    console.log(`Player ${playerObject.name} submitted answer ${JSON.stringify(answer)} for question ${playerSession.currentQuestionIndex + 1}`);
 
-    // Get the current question
-    const currentQuestion = playerSession.questions[playerSession.currentQuestionIndex];
-    if (!currentQuestion) {
-      console.log(`No current question found in session`);
+    // The server is the only judge of whether an answer counts
+    const rejection = validateAnswerSubmission(playerSession, playerObject, answer, questionIndex);
+    if (rejection) {
+      console.log(`Rejected answer from ${playerObject.name}: ${rejection}`);
+      socket.emit('answer-rejected', { reason: rejection, questionIndex: playerSession.currentQuestionIndex });
       return;
     }
 
-    // Record the answer
-    const isCorrect = answer === currentQuestion.correctOption;
+    const currentQuestion = playerSession.questions[playerSession.currentQuestionIndex];
+
+    // Grade the answer by its question type, then score it by correctness, speed and streak
+    const { isCorrect, credit } = getQuestionType(currentQuestion).grade(currentQuestion, answer);
+    const timeRemainingMs = getPlayerTimeRemainingMs(playerSession, playerObject);
+    const timeLimitMs = playerSession.questionTimeLimit * 1000;
+    const points = scoringEngine.scoreAnswer({
+      isCorrect,
+      credit,
+      timeRemainingMs,
+      timeLimitMs,
+      streak: playerObject.streak,
+      boost: playerObject.doublePointsArmed ? DOUBLE_POINTS_BOOST : 1
+    });
+    playerObject.doublePointsArmed = false;
+
+    // Record the answer with its points breakdown and how long it took
     playerObject.answers.push({
       questionIndex: playerSession.currentQuestionIndex,
       answer,
-      isCorrect
+      isCorrect,
+      points,
+      responseTimeMs: Math.max(0, timeLimitMs + playerObject.extraTimeMs - timeRemainingMs)
     });
 
-    // Update player score if correct
-    if (isCorrect) {
-      playerObject.score += 10;
-    }
+    // Update player score and streak
+    playerObject.score += points.total;
+    playerObject.streak = points.streak;
 
-    // Broadcast updated player data to all clients for dynamic leaderboard
-    io.to(playerSession.id).emit('playerUpdate', playerObject);
+    // Broadcast updated player data to all clients for dynamic leaderboard; the answer itself stays private
+    emitPlayerUpdate(playerSession, playerObject);
+    // Let the room (and a presenter screen) see how many have answered so far
+    const { answered, players } = summarizeRoomAnswers(playerSession, playerSession.currentQuestionIndex);
+    io.to(playerSession.id).emit('answer-count', { answered, players });
     // Also emit full leaderboard to update all clients
-    io.to(playerSession.id).emit('leaderboard', playerSession.players);
+    io.to(playerSession.id).emit('leaderboard', buildLeaderboard(playerSession));
+  });
 
-    // Handle game start request from host
-    socket.on('startGame', () => {
-      for (const [sessionId, session] of sessions) {
-        const player = session.players.find(p => p.id === socket.id);
-        if (player && player.isHost) {
-          startGame(sessionId);
-          break;
-        }
+  // Handle a player confirming a question arrived; half the round trip is how late it reached them
+  socket.on('questionReceived', ({ questionIndex } = {}) => {
+    for (const [sessionId, session] of sessions) {
+      const player = session.players.find(p => p.id === socket.id);
+      if (player) {
+        if (session.status !== 'playing' || session.isRevealing || questionIndex !== session.currentQuestionIndex || player.questionDelayMs !== null) return;
+        
+        player.questionDelayMs = Math.round((Date.now() - session.questionStartTime) / 2);
+        // The reveal waits for the latest deadline, which may just have moved
+        if (!session.isPaused) startQuestionTimers(sessionId);
+        break;
       }
-    });
+    }
+  });
+
+  // Handle a player using one of their once-per-game power-ups on the current question
+  socket.on('usePowerUp', ({ powerUp, questionIndex } = {}) => {
+    let playerSession = null;
+    let playerObject = null;
+
+    for (const [sessionId, session] of sessions) {
+      const player = session.players.find(p => p.id === socket.id);
+      if (player) {
+        playerSession = session;
+        playerObject = player;
+        break;
+      }
+    }
 
-    socket.on('disconnect', () => {
-      // On disconnect, notify peers in the same session
-      for (const [sessionId, session] of sessions) {
-        if (session.players.some(p => p.id === socket.id)) {
-          socket.to(sessionId).emit('video-peer-leave', { peerId: socket.id });
-          break;
+    if (!playerSession || !playerObject) {
+      socket.emit('power-up-rejected', { powerUp, reason: 'NOT_PLAYING' });
+      return;
+    }
+
+    // The server decides whether the power-up may be used and what it does
+    const rejection = validatePowerUp(playerSession, playerObject, powerUp, questionIndex);
+    if (rejection) {
+      console.log(`Rejected ${powerUp} from ${playerObject.name}: ${rejection}`);
+      socket.emit('power-up-rejected', { powerUp, reason: rejection });
+      return;
+    }
+
+    const effect = activatePowerUp(playerSession, playerObject, powerUp);
+    console.log(`Player ${playerObject.name} used ${powerUp} on question ${playerSession.currentQuestionIndex + 1}`);
+    socket.emit('power-up-used', { powerUp, questionIndex: playerSession.currentQuestionIndex, ...effect });
+
+    // A later personal deadline pushes back when the question closes
+    if (powerUp === 'timeFreeze' && !playerSession.isPaused) {
+      startQuestionTimers(playerSession.id);
+    }
+
+    // Everyone can see which power-ups a player has left
+    emitPlayerUpdate(playerSession, playerObject);
+  });
+
+  // Helper function to find the session this socket hosts; host commands from anyone else are rejected
+  function getHostedSession(command) {
+    for (const [sessionId, session] of sessions) {
+      const player = session.players.find(p => p.id === socket.id);
+      if (player) {
+        if (player.isHost) return session;
+        break;
+      }
+    }
+    console.warn(`Rejected ${command} from non-host ${socket.id}`);
+    return null;
+  }
+
+  // Handle game start request from host, even if not everyone is ready
+  socket.on('startGame', () => {
+    const session = getHostedSession('startGame');
+    if (!session || session.status !== 'lobby') return;
+    if (session.lobbyTimer) clearTimeout(session.lobbyTimer);
+    startGame(session.id);
+  });
+
+  // Handle host changing the game settings in the lobby
+  socket.on('updateSettings', (changes) => {
+    const session = getHostedSession('updateSettings');
+    if (!session || session.status !== 'lobby' || !changes || typeof changes !== 'object') return;
+    
+    session.settings = applySettingsChanges(session, changes);
+    // Turning team mode on or changing the team count deals players onto the new teams
+    balanceTeams(session);
+    console.log(`Settings for session ${session.id} updated:`, session.settings);
+    io.to(session.id).emit('gameState', buildGameState(session));
+  });
+
+  socket.on('assignTeam', ({ playerId, teamId } = {}) => {
+    const session = getHostedSession('assignTeam');
+    if (!session || session.status !== 'lobby') return;
+    if (typeof playerId !== 'string' || typeof teamId !== 'string') return;
+    const target = session.players.find(p => p.id === playerId);
+    if (!target || !getSessionTeams(session).some(team => team.id === teamId)) return;
+    
+    target.teamId = teamId;
+    io.to(session.id).emit('gameState', buildGameState(session));
+  });
+
+  socket.on('shuffleTeams', () => {
+    const session = getHostedSession('shuffleTeams');
+    if (!session || session.status !== 'lobby' || !session.settings.teamMode) return;
+    
+    balanceTeams(session, { reshuffle: true });
+    io.to(session.id).emit('gameState', buildGameState(session));
+  });
+
+  // Handle host removing a player from the session
+  socket.on('kickPlayer', ({ playerId } = {}) => {
+    const session = getHostedSession('kickPlayer');
+    if (!session || typeof playerId !== 'string' || playerId === socket.id) return;
+    if (!session.players.some(p => p.id === playerId)) return;
+    
+    console.log(`Host ${socket.id} kicked player ${playerId} from session ${session.id}`);
+    io.to(playerId).emit('kicked');
+    io.in(playerId).socketsLeave(session.id);
+    socket.to(session.id).emit('video-peer-leave', { peerId: playerId });
+    removePlayerFromSession(session.id, playerId);
+  });
+
+  // Handle host pausing and resuming the question timer
+  socket.on('pauseGame', () => {
+    const session = getHostedSession('pauseGame');
+    if (session) pauseQuestion(session.id);
+  });
+
+  socket.on('resumeGame', () => {
+    const session = getHostedSession('resumeGame');
+    if (session) resumeQuestion(session.id);
+  });
+
+  // Handle host skipping the current question
+  socket.on('skipQuestion', () => {
+    const session = getHostedSession('skipQuestion');
+    if (session) skipQuestion(session.id);
+  });
+
+  // Handle host ending the game early
+  socket.on('endGame', () => {
+    const session = getHostedSession('endGame');
+    if (session && session.status === 'playing') endGame(session.id);
+  });
+
+  socket.on('disconnect', () => {
+    // On disconnect, notify peers in the same session
+    for (const [sessionId, session] of sessions) {
+      if (session.players.some(p => p.id === socket.id)) {
+        socket.to(sessionId).emit('video-peer-leave', { peerId: socket.id });
+        break;
+      }
+    }
+    console.log('Client disconnected:', socket.id);
+    networkMonitor.stopMonitoring(socket);
+    
+    // Queued players were never seated anywhere
+    if (removeFromQueue(socket.id)) return;
+    
+    // Spectators simply leave
+    for (const session of sessions.values()) {
+      const spectatorIndex = session.spectators.findIndex(s => s.id === socket.id);
+      if (spectatorIndex !== -1) {
+        const [spectator] = session.spectators.splice(spectatorIndex, 1);
+        if (spectator.isPresenter) {
+          io.to(session.id).emit('presenter-changed', { hasPresenter: session.spectators.some(s => s.isPresenter) });
         }
+        if (session.status === 'lobby') {
+          io.to(session.id).emit('gameState', buildGameState(session));
+        }
+        return;
       }
-      console.log('Client disconnected:', socket.id);
-      networkMonitor.stopMonitoring(socket.id);
-      
-      // Remove player from their session
-      for (const [sessionId, session] of sessions) {
-        const playerIndex = session.players.findIndex(p => p.id === socket.id);
-        if (playerIndex !== -1) {
-          session.players.splice(playerIndex, 1);
-          
-          // If no players left, remove the session
-          if (session.players.length === 0) {
-            sessions.delete(sessionId);
-            if (session.lobbyTimer) {
-              clearTimeout(session.lobbyTimer);
-            }
-          } else {
-            // Update remaining players
-            io.to(sessionId).emit('gameState', {
-  sessionId: sessionId,
-              gameState: session.status,
-              players: session.players,
-              currentQuestion: session.currentQuestionIndex >= 0 ? session.questions[session.currentQuestionIndex] : null,
-              questionNumber: session.currentQuestionIndex + 1,
-              totalQuestions: QUESTIONS_PER_GAME,
-              timeLimit: session.currentQuestionIndex >= 0 ? calculateAdaptiveTimer(sessionId) : 0,
-              timeRemaining: session.currentQuestionIndex >= 0 ? session.questionEndTime - Date.now() : 0,
-              lobbyTimeRemaining: Math.max(0, LOBBY_TIMER - Math.floor((Date.now() - session.lobbyStartTime) / 1000)),
-              results: []
-            });
-          }
-          break;
+    }
+    
+    // Hold the seat of a player dropping out of a running game; otherwise remove them
+    for (const [sessionId, session] of sessions) {
+      if (session.players.some(p => p.id === socket.id)) {
+        if (session.status === 'playing') {
+          markPlayerAway(sessionId, socket.id);
+        } else {
+          removePlayerFromSession(sessionId, socket.id);
         }
+        break;
       }
-    });
+    }
   });
 }); // Close io.on('connection')
 
+// Admin dashboard: a separate namespace that only accepts sockets presenting ADMIN_TOKEN
+// in their handshake ({ auth: { token } }) and pushes admin-stats snapshots to them
+const adminIo = io.of('/admin');
+
+// Helper function to check an admin token without leaking how much of it matched
+const isValidAdminToken = (token) => {
+  if (!ADMIN_TOKEN || typeof token !== 'string') return false;
+  const digest = (value) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(token), digest(ADMIN_TOKEN));
+};
+
+// Helper function to describe every session, its players' connections and the queue for the dashboard
+const buildAdminSnapshot = () => {
+  return {
+    serverTime: Date.now(),
+    uptimeSeconds: Math.round(process.uptime()),
+    maxSessions: MAX_SESSIONS,
+    queueLength: waitingQueue.length,
+    maxQueueLength: MAX_QUEUE_LENGTH,
+    sessions: Array.from(sessions.values()).map(session => ({
+      id: session.id,
+      mode: session.mode,
+      status: session.status,
+      isPrivate: session.isPrivate,
+      roomCode: session.roomCode,
+      isPaused: !!session.isPaused,
+      questionIndex: session.currentQuestionIndex,
+      totalQuestions: session.questions.length,
+      spectatorCount: session.spectators.length,
+      timerDecisions: session.timerDecisions,
+      players: session.players.map(player => ({
+        id: player.id,
+        name: player.name,
+        score: player.score,
+        isAway: !!player.isAway,
+        answerGraceMs: getAnswerGraceMs(player),
+        network: networkMonitor.getStats(player.id)
+      }))
+    }))
+  };
+};
+
+// Helper function to send a fresh snapshot to every connected admin dashboard
+const broadcastAdminStats = () => {
+  if (adminIo.sockets.size === 0) return;
+  adminIo.emit('admin-stats', buildAdminSnapshot());
+};
+
+adminIo.use((socket, next) => {
+  if (!ADMIN_TOKEN) {
+    next(new Error('ADMIN_DISABLED'));
+    return;
+  }
+  if (!isValidAdminToken(socket.handshake.auth?.token)) {
+    console.warn(`Rejected admin connection from ${socket.handshake.address}`);
+    next(new Error('UNAUTHORIZED'));
+    return;
+  }
+  next();
+});
+
+adminIo.on('connection', (socket) => {
+  console.log('Admin dashboard connected:', socket.id);
+  socket.emit('admin-stats', buildAdminSnapshot());
+  socket.on('disconnect', () => {
+    console.log('Admin dashboard disconnected:', socket.id);
+  });
+});
+
 // Error handling
 server.on('error', (error) => {
   console.error('Server error:', error);
@@ -715,8 +2038,12 @@ process.on('SIGTERM', () => {
   if (sessionMergeInterval) {
     clearInterval(sessionMergeInterval);
   }
+  if (adminStatsInterval) {
+    clearInterval(adminStatsInterval);
+  }
   sessions.clear();
   sessionStates.clear();
+  gameStore.close();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -0,0 +1,21 @@
+// Lobby countdown arithmetic. A lobby's clock is its start time: it has lobbyTimer
+// seconds from then until the countdown runs out. Times are in ms, durations in seconds.
+
+// Seconds left on a lobby countdown that started at startTime
+const getLobbyTimeRemaining = (startTime, lobbyTimer, now = Date.now()) => {
+  return Math.max(0, lobbyTimer - Math.floor((now - startTime) / 1000));
+};
+
+// Start time for a lobby made by merging two others, leaving it the longer of their two remaining times
+const getMergedLobbyStartTime = (startTime1, startTime2, lobbyTimer, now = Date.now()) => {
+  const remaining = Math.max(
+    getLobbyTimeRemaining(startTime1, lobbyTimer, now),
+    getLobbyTimeRemaining(startTime2, lobbyTimer, now)
+  );
+  return now - (lobbyTimer - remaining) * 1000;
+};
+
+module.exports = {
+  getLobbyTimeRemaining,
+  getMergedLobbyStartTime
+};
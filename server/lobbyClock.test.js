@@ -0,0 +1,29 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { getLobbyTimeRemaining, getMergedLobbyStartTime } = require('./lobbyClock');
+
+const LOBBY_TIMER = 15;
+const now = 1_000_000;
+
+test('a merged lobby keeps the longer of the two remaining times', () => {
+  const older = now - 12 * 1000; // 3 seconds left
+  const newer = now - 4 * 1000; // 11 seconds left
+
+  const merged = getMergedLobbyStartTime(older, newer, LOBBY_TIMER, now);
+
+  assert.strictEqual(getLobbyTimeRemaining(merged, LOBBY_TIMER, now), 11);
+  assert.strictEqual(getMergedLobbyStartTime(newer, older, LOBBY_TIMER, now), merged);
+});
+
+test('merging two expired lobbies leaves an expired countdown', () => {
+  const merged = getMergedLobbyStartTime(now - 20 * 1000, now - 30 * 1000, LOBBY_TIMER, now);
+
+  assert.strictEqual(getLobbyTimeRemaining(merged, LOBBY_TIMER, now), 0);
+});
+
+test('merging two fresh lobbies leaves the full countdown', () => {
+  const merged = getMergedLobbyStartTime(now, now, LOBBY_TIMER, now);
+
+  assert.strictEqual(merged, now);
+  assert.strictEqual(getLobbyTimeRemaining(merged, LOBBY_TIMER, now), LOBBY_TIMER);
+});
@@ -1,13 +1,24 @@
+// Measures each connection with sequence-numbered heartbeats. The server sends
+// heartbeat { seq, serverTime } and the client echoes heartbeatAck { seq, clientTime }.
+// From the replies we get round-trip latency, jitter (how much the round trip moves
+// between heartbeats), packet loss (heartbeats never answered) and an estimate of how
+// far the client's clock is from ours. Clients can also ask for the server time directly
+// with syncClock { clientTime }, answered by clock-sync, to line up their clocks right away.
 class NetworkMonitor {
   constructor() {
-    this.connections = new Map(); // socketId -> { latency, lastPing, health }
+    this.connections = new Map(); // socketId -> { latency, lastPing, health, samples, outcomes, pending, ... }
     this.healthThresholds = {
       good: 100,    // ms
       fair: 300,    // ms
       poor: 500     // ms
     };
-    this.maxPingHistory = 5;
-    this.pingInterval = 5000; // ms
+    this.lossThresholds = {
+      good: 2,      // % of heartbeats lost
+      fair: 10      // %
+    };
+    this.maxPingHistory = 20; // heartbeats kept for averages, loss and the client's sparkline
+    this.pingInterval = 2000; // ms
+    this.heartbeatTimeout = 5000; // ms before an unanswered heartbeat counts as lost
     console.log('NetworkMonitor initialized');
   }
 
@@ -20,16 +31,22 @@ class NetworkMonitor {
       }
 
       console.log(`Starting network monitoring for socket ${socket.id}`);
-      this.connections.set(socket.id, {
+      const connection = {
         latency: 0,
         lastPing: Date.now(),
         health: 'good',
-        pings: [],
+        samples: [],      // { rtt, offset } for answered heartbeats, oldest first
+        outcomes: [],     // true for each answered heartbeat, false for each lost one
+        pending: new Map(), // seq -> time sent
+        nextSeq: 1,
         pingInterval: null
-      });
+      };
+      this.connections.set(socket.id, connection);
 
-      // Send initial ping
-      this.sendPing(socket);
+      // The first heartbeat goes out after one interval, once the client has its listeners in place
+      socket.on('heartbeatAck', (data) => this.handlePong(socket, data));
+      socket.on('syncClock', (data) => this.handleClockSync(socket, data));
+      connection.pingInterval = setInterval(() => this.sendPing(socket), this.pingInterval);
     } catch (error) {
       console.error('Error in startMonitoring:', error);
     }
@@ -54,83 +71,106 @@ class NetworkMonitor {
     }
   }
 
-  // Send ping to measure latency
+  // Send the next heartbeat, first writing off any that went unanswered for too long
   sendPing(socket) {
     try {
-      if (!socket || !socket.id || !this.connections.has(socket.id)) {
+      const connection = socket && this.connections.get(socket.id);
+      if (!connection) {
         console.error('Invalid socket or unmonitored socket in sendPing');
         return;
       }
 
-      const startTime = Date.now();
-      socket.emit('ping', { timestamp: startTime });
-      
-      // Schedule next ping
-      const connection = this.connections.get(socket.id);
-      if (connection) {
-        if (connection.pingInterval) {
-          clearInterval(connection.pingInterval);
+      const now = Date.now();
+      for (const [seq, sentAt] of connection.pending) {
+        if (now - sentAt > this.heartbeatTimeout) {
+          connection.pending.delete(seq);
+          this.recordOutcome(connection, false);
         }
-        connection.pingInterval = setInterval(() => this.sendPing(socket), this.pingInterval);
       }
+
+      const seq = connection.nextSeq++;
+      connection.pending.set(seq, now);
+      socket.emit('heartbeat', { seq, serverTime: now });
     } catch (error) {
       console.error('Error in sendPing:', error);
     }
   }
 
-  // Handle pong response
+  // Handle a client's reply to a heartbeat
   handlePong(socket, data) {
     try {
-      if (!socket || !socket.id || !data || typeof data.timestamp !== 'number') {
-        console.error('Invalid pong data received');
+      if (!socket || !socket.id || !data || !Number.isInteger(data.seq)) {
+        console.error('Invalid heartbeat ack received');
+        return;
+      }
+
+      const connection = this.connections.get(socket.id);
+      if (!connection) {
+        console.warn(`Received heartbeat ack from unmonitored socket ${socket.id}`);
         return;
       }
 
+      // Replies to heartbeats already written off as lost (or never sent) don't count
+      const sentAt = connection.pending.get(data.seq);
+      if (sentAt === undefined) return;
+      connection.pending.delete(data.seq);
+
       const endTime = Date.now();
-      const latency = endTime - data.timestamp;
-      
-      if (this.connections.has(socket.id)) {
-        const connection = this.connections.get(socket.id);
-        connection.latency = latency;
-        connection.lastPing = endTime;
-        
-        // Update health status
-        connection.health = this.calculateHealth(latency);
-        
-        // Keep last N pings for average calculation
-        connection.pings.push(latency);
-        if (connection.pings.length > this.maxPingHistory) {
-          connection.pings.shift();
-        }
-        
-        // Log network stats periodically
-        if (connection.pings.length % 5 === 0) {
-          console.log(`Network stats for ${socket.id}:`, {
-            latency,
-            health: connection.health,
-            averageLatency: this.calculateAverageLatency(connection.pings)
-          });
-        }
-        
-        // Emit network stats to the client
-        socket.emit('network-stats', {
+      const latency = endTime - sentAt;
+      // The client stamped its reply roughly half a round trip after we sent the heartbeat
+      const offset = typeof data.clientTime === 'number' ? Math.round(data.clientTime - (sentAt + latency / 2)) : null;
+
+      connection.latency = latency;
+      connection.lastPing = endTime;
+      connection.samples.push({ rtt: latency, offset });
+      if (connection.samples.length > this.maxPingHistory) {
+        connection.samples.shift();
+      }
+      this.recordOutcome(connection, true);
+
+      const stats = this.getStats(socket.id);
+
+      // Log network stats periodically
+      if (connection.samples.length % 5 === 0) {
+        console.log(`Network stats for ${socket.id}:`, {
           latency,
-          health: connection.health,
-          averageLatency: this.calculateAverageLatency(connection.pings)
+          health: stats.health,
+          averageLatency: stats.averageLatency,
+          jitter: stats.jitter,
+          packetLoss: stats.packetLoss
         });
-      } else {
-        console.warn(`Received pong from unmonitored socket ${socket.id}`);
       }
+
+      // Emit network stats to the client
+      socket.emit('network-stats', stats);
     } catch (error) {
       console.error('Error in handlePong:', error);
     }
   }
 
-  // Calculate connection health based on latency
-  calculateHealth(latency) {
-    if (latency <= this.healthThresholds.good) return 'good';
-    if (latency <= this.healthThresholds.fair) return 'fair';
-    return 'poor';
+  // Answer a client's clock-sync request with our time, echoing theirs so they can time the round trip
+  handleClockSync(socket, data) {
+    if (!data || typeof data.clientTime !== 'number') {
+      console.error('Invalid clock sync request received');
+      return;
+    }
+    socket.emit('clock-sync', { clientTime: data.clientTime, serverTime: Date.now() });
+  }
+
+  // Remember whether a heartbeat was answered, keeping the same window as the latency history
+  recordOutcome(connection, answered) {
+    connection.outcomes.push(answered);
+    if (connection.outcomes.length > this.maxPingHistory) {
+      connection.outcomes.shift();
+    }
+    connection.health = this.calculateHealth(connection.latency, this.calculatePacketLoss(connection.outcomes));
+  }
+
+  // Calculate connection health from latency and packet loss, whichever is worse
+  calculateHealth(latency, packetLoss = 0) {
+    if (latency > this.healthThresholds.fair || packetLoss > this.lossThresholds.fair) return 'poor';
+    if (latency > this.healthThresholds.good || packetLoss > this.lossThresholds.good) return 'fair';
+    return 'good';
   }
 
   // Calculate average latency from recent pings
@@ -139,31 +179,57 @@ class NetworkMonitor {
     return Math.round(pings.reduce((a, b) => a + b, 0) / pings.length);
   }
 
+  // Calculate jitter as the average change in round trip between consecutive heartbeats
+  calculateJitter(pings) {
+    if (pings.length < 2) return 0;
+    let totalChange = 0;
+    for (let i = 1; i < pings.length; i++) {
+      totalChange += Math.abs(pings[i] - pings[i - 1]);
+    }
+    return Math.round(totalChange / (pings.length - 1));
+  }
+
+  // Calculate the percentage of recent heartbeats that were never answered
+  calculatePacketLoss(outcomes) {
+    if (outcomes.length === 0) return 0;
+    const lost = outcomes.filter(answered => !answered).length;
+    return Math.round((lost / outcomes.length) * 1000) / 10;
+  }
+
+  // Estimate the client's clock offset (client minus server, ms) from the quickest recent
+  // round trip, where the half-round-trip guess is least likely to be off
+  estimateClockOffset(samples) {
+    const timed = samples.filter(s => s.offset !== null);
+    if (timed.length === 0) return null;
+    return timed.reduce((best, s) => (s.rtt < best.rtt ? s : best)).offset;
+  }
+
   // Get current network stats for a connection
   getStats(socketId) {
     const connection = this.connections.get(socketId);
     if (!connection) return null;
-    
+
+    const pings = connection.samples.map(s => s.rtt);
     return {
       latency: connection.latency,
       health: connection.health,
-      averageLatency: this.calculateAverageLatency(connection.pings),
-      lastPing: connection.lastPing
+      averageLatency: this.calculateAverageLatency(pings),
+      jitter: this.calculateJitter(pings),
+      packetLoss: this.calculatePacketLoss(connection.outcomes),
+      clockOffset: this.estimateClockOffset(connection.samples),
+      lastPing: connection.lastPing,
+      history: pings
     };
   }
 
   // Get all connections' stats
   getAllStats() {
     const stats = {};
-    for (const [socketId, connection] of this.connections.entries()) {
-      stats[socketId] = {
-        latency: connection.latency,
-        health: connection.health,
-        averageLatency: this.calculateAverageLatency(connection.pings)
-      };
+    for (const socketId of this.connections.keys()) {
+      stats[socketId] = this.getStats(socketId);
     }
     return stats;
   }
 }
 
-module.exports = NetworkMonitor; 
\ No newline at end of file
+module.exports = NetworkMonitor;
@@ -0,0 +1,262 @@
+const fs = require('fs');
+const path = require('path');
+const { QUESTION_TYPES, DEFAULT_TYPE } = require('./questionTypes');
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+const MEDIA_TYPES = ['image', 'audio', 'video'];
+const DEFAULT_CATEGORY = 'general';
+const DEFAULT_DIFFICULTY = 'medium';
+
+// Unbiased Fisher-Yates shuffle; returns a new array
+const shuffle = (items) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+class QuestionProvider {
+  constructor(dataDir, { mediaDir } = {}) {
+    this.dataDir = dataDir;
+    this.mediaDir = mediaDir; // when set, media files must exist here
+    this.packs = new Map(); // packId -> { id, name, description, questions }
+    this.questions = [];
+    this.recentQuestions = new Map(); // player key -> [[questionId, ...], ...] newest game last
+    this.maxRecentGames = 5;
+    console.log('QuestionProvider initialized');
+  }
+
+  // Load and validate every question pack in the data directory
+  loadPacks() {
+    this.packs.clear();
+    this.questions = [];
+
+    const files = fs.readdirSync(this.dataDir).filter(file => file.endsWith('.json')).sort();
+    for (const file of files) {
+      try {
+        const raw = JSON.parse(fs.readFileSync(path.join(this.dataDir, file), 'utf8'));
+        this.addPack(path.basename(file, '.json'), raw);
+      } catch (error) {
+        console.error(`Error loading question pack ${file}:`, error);
+      }
+    }
+
+    if (this.questions.length === 0) {
+      throw new Error(`No valid questions found in ${this.dataDir}`);
+    }
+
+    console.log(`Loaded ${this.questions.length} questions from ${this.packs.size} pack(s)`);
+    return this.questions.length;
+  }
+
+  // Register one pack. A plain array of questions is accepted as a pack without metadata.
+  addPack(fileId, raw) {
+    const pack = Array.isArray(raw) ? { questions: raw } : raw;
+    const packId = pack.id || fileId;
+
+    if (this.packs.has(packId)) {
+      console.error(`Duplicate question pack id ${packId}, skipping`);
+      return;
+    }
+    if (!Array.isArray(pack.questions)) {
+      console.error(`Question pack ${packId} has no questions array, skipping`);
+      return;
+    }
+
+    const seenIds = new Set();
+    const questions = [];
+    pack.questions.forEach((item, index) => {
+      let question = {
+        type: DEFAULT_TYPE,
+        category: pack.category || DEFAULT_CATEGORY,
+        difficulty: pack.difficulty || DEFAULT_DIFFICULTY,
+        tags: [],
+        ...item
+      };
+      if (QUESTION_TYPES[question.type]) {
+        question = QUESTION_TYPES[question.type].normalize(question);
+      }
+
+      const problems = this.validateQuestion(question);
+      if (seenIds.has(question.id)) {
+        problems.push(`duplicate id ${question.id}`);
+      }
+      if (problems.length > 0) {
+        console.error(`Invalid question #${index} in pack ${packId}: ${problems.join('; ')}`);
+        return;
+      }
+
+      seenIds.add(question.id);
+      // Namespace ids so questions from different packs never collide
+      questions.push({ ...question, id: `${packId}-${question.id}`, pack: packId });
+    });
+
+    this.packs.set(packId, {
+      id: packId,
+      name: pack.name || packId,
+      description: pack.description || '',
+      questions
+    });
+    this.questions.push(...questions);
+  }
+
+  // Check a question against the shape the game expects; returns a list of problems
+  validateQuestion(question) {
+    const problems = [];
+
+    if (typeof question.id !== 'number' && typeof question.id !== 'string') {
+      problems.push('id must be a number or string');
+    }
+    if (typeof question.question !== 'string' || question.question.trim() === '') {
+      problems.push('question text is missing');
+    }
+    // Options and the correct answer are checked by the question's type
+    const questionType = QUESTION_TYPES[question.type];
+    if (!questionType) {
+      problems.push(`type must be one of ${Object.keys(QUESTION_TYPES).join(', ')}`);
+    } else {
+      problems.push(...questionType.validate(question));
+    }
+    if (typeof question.category !== 'string' || question.category.trim() === '') {
+      problems.push('category must be a non-empty string');
+    }
+    if (!DIFFICULTIES.includes(question.difficulty)) {
+      problems.push(`difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+    }
+    if (!Array.isArray(question.tags) || question.tags.some(tag => typeof tag !== 'string')) {
+      problems.push('tags must be an array of strings');
+    }
+    if (question.explanation !== undefined && typeof question.explanation !== 'string') {
+      problems.push('explanation must be a string');
+    }
+    if (question.media !== undefined) {
+      problems.push(...this.validateMedia(question.media));
+    }
+
+    return problems;
+  }
+
+  // Check a question's media attachment: { type, src, alt } with src relative to the media directory
+  validateMedia(media) {
+    if (!media || typeof media !== 'object') {
+      return ['media must be an object'];
+    }
+
+    const problems = [];
+    if (!MEDIA_TYPES.includes(media.type)) {
+      problems.push(`media type must be one of ${MEDIA_TYPES.join(', ')}`);
+    }
+    if (typeof media.src !== 'string' || media.src.trim() === '') {
+      problems.push('media src must be a non-empty string');
+    } else if (path.isAbsolute(media.src) || media.src.split(/[\\/]/).includes('..')) {
+      problems.push('media src must be a path inside the media directory');
+    } else if (this.mediaDir && !fs.existsSync(path.join(this.mediaDir, media.src))) {
+      problems.push(`media file ${media.src} not found`);
+    }
+    if (media.alt !== undefined && typeof media.alt !== 'string') {
+      problems.push('media alt must be a string');
+    }
+    return problems;
+  }
+
+  // List the categories available across all packs with their question counts
+  getCategories() {
+    const counts = {};
+    for (const question of this.questions) {
+      counts[question.category] = (counts[question.category] || 0) + 1;
+    }
+    return counts;
+  }
+
+  // Pick count questions. category limits the pool ('any' or omitted for all),
+  // difficultyMix is a share per difficulty such as { easy: 0.3, medium: 0.5, hard: 0.2 },
+  // and questions any of playerKeys saw in their recent games are only used as a last resort.
+  // filter, if given, keeps only the questions it returns true for.
+  getRandomQuestions(count, { category, difficultyMix, playerKeys = [], filter } = {}) {
+    let pool = this.questions;
+    if (category && category !== 'any') {
+      const categories = Array.isArray(category) ? category : [category];
+      pool = pool.filter(q => categories.includes(q.category));
+    }
+    if (filter) {
+      pool = pool.filter(filter);
+    }
+
+    const recentIds = this.getRecentQuestionIds(playerKeys);
+    const fresh = shuffle(pool.filter(q => !recentIds.has(q.id)));
+    const seen = shuffle(pool.filter(q => recentIds.has(q.id)));
+
+    let picked = [];
+    if (difficultyMix) {
+      for (const [difficulty, target] of Object.entries(this.getDifficultyTargets(count, difficultyMix))) {
+        picked.push(...fresh.filter(q => q.difficulty === difficulty).slice(0, target));
+      }
+    }
+
+    // Fill whatever the mix could not supply, fresh questions first
+    const pickedIds = new Set(picked.map(q => q.id));
+    for (const question of [...fresh, ...seen]) {
+      if (picked.length >= count) break;
+      if (!pickedIds.has(question.id)) {
+        picked.push(question);
+        pickedIds.add(question.id);
+      }
+    }
+
+    if (picked.length < count) {
+      console.warn(`Only ${picked.length} questions available for a request of ${count}`);
+    }
+    return shuffle(picked).slice(0, count);
+  }
+
+  // Turn difficulty shares into whole question counts that add up to count
+  getDifficultyTargets(count, difficultyMix) {
+    const entries = Object.entries(difficultyMix).filter(([difficulty, share]) => DIFFICULTIES.includes(difficulty) && share > 0);
+    const totalShare = entries.reduce((sum, [, share]) => sum + share, 0);
+    if (totalShare === 0) return {};
+
+    const targets = {};
+    let assigned = 0;
+    entries.forEach(([difficulty, share]) => {
+      targets[difficulty] = Math.floor((share / totalShare) * count);
+      assigned += targets[difficulty];
+    });
+    // Hand out rounding leftovers to the largest shares
+    const byShare = [...entries].sort((a, b) => b[1] - a[1]);
+    for (let i = 0; assigned < count; i = (i + 1) % byShare.length) {
+      targets[byShare[i][0]]++;
+      assigned++;
+    }
+    return targets;
+  }
+
+  // Record the questions a game used for each of its players
+  rememberQuestions(playerKeys, questionIds) {
+    for (const key of playerKeys) {
+      const games = this.recentQuestions.get(key) || [];
+      games.push([...questionIds]);
+      while (games.length > this.maxRecentGames) {
+        games.shift();
+      }
+      this.recentQuestions.set(key, games);
+    }
+  }
+
+  // Get every question id any of the given players saw in their recent games
+  getRecentQuestionIds(playerKeys) {
+    const ids = new Set();
+    for (const key of playerKeys) {
+      for (const game of this.recentQuestions.get(key) || []) {
+        game.forEach(id => ids.add(id));
+      }
+    }
+    return ids;
+  }
+}
+
+module.exports = QuestionProvider;
+module.exports.shuffle = shuffle;
+module.exports.DIFFICULTIES = DIFFICULTIES;
+module.exports.MEDIA_TYPES = MEDIA_TYPES;
@@ -0,0 +1,207 @@
+// Per-type rules for questions. Each type knows how to normalize and validate a
+// question from a pack, what players may see, which answers are well-formed,
+// how to grade an answer, and what to reveal once the question ends.
+// grade() returns { isCorrect, credit } where credit is the share of full points (0-1).
+// tally() turns the room's answers into one count per option for the reveal histogram.
+// wrongOptions() lists the option indexes a 50/50 power-up may hide; pollable says
+// whether the tally can be shown mid-question without giving the answer away.
+// survivalSafe says whether the type belongs in survival mode, where anything short of a
+// fully correct answer costs a life; near-miss types (numeric, ordering) are left out.
+
+const DEFAULT_TYPE = 'single';
+
+const isOptionIndex = (question, value) => {
+  return Number.isInteger(value) && value >= 0 && value < question.options.length;
+};
+
+const isUniqueIndexList = (question, value) => {
+  return Array.isArray(value) && value.every(v => isOptionIndex(question, v)) && new Set(value).size === value.length;
+};
+
+const isPermutation = (question, value) => {
+  return isUniqueIndexList(question, value) && value.length === question.options.length;
+};
+
+// Count how many answers picked each option; each answer is an index or a list of indexes
+const countPicks = (question, answers) => {
+  const counts = question.options.map(() => 0);
+  answers.forEach(answer => {
+    (Array.isArray(answer) ? answer : [answer]).forEach(index => {
+      counts[index]++;
+    });
+  });
+  return counts;
+};
+
+const validateOptions = (question) => {
+  if (!Array.isArray(question.options) || question.options.length < 2 ||
+      question.options.some(option => typeof option !== 'string' || option.trim() === '')) {
+    return ['options must be at least two non-empty strings'];
+  }
+  return [];
+};
+
+const singleChoice = {
+  normalize: (question) => question,
+  validate(question) {
+    const problems = validateOptions(question);
+    if (problems.length === 0 && !isOptionIndex(question, question.correctOption)) {
+      problems.push('correctOption must index one of the options');
+    }
+    return problems;
+  },
+  sanitize: (question) => ({ options: question.options }),
+  isValidAnswer: (question, answer) => isOptionIndex(question, answer),
+  grade(question, answer) {
+    const isCorrect = answer === question.correctOption;
+    return { isCorrect, credit: isCorrect ? 1 : 0 };
+  },
+  tally: countPicks,
+  pollable: true,
+  survivalSafe: true,
+  wrongOptions: (question) => question.options.map((_, index) => index).filter(index => index !== question.correctOption),
+  reveal: (question) => ({ correctOption: question.correctOption })
+};
+
+const trueFalse = {
+  ...singleChoice,
+  // Packs may give just correctAnswer: true/false
+  normalize(question) {
+    const normalized = { options: ['True', 'False'], ...question };
+    if (typeof question.correctAnswer === 'boolean' && question.correctOption === undefined) {
+      normalized.correctOption = question.correctAnswer ? 0 : 1;
+    }
+    return normalized;
+  },
+  validate(question) {
+    const problems = singleChoice.validate(question);
+    if (Array.isArray(question.options) && question.options.length !== 2) {
+      problems.push('true/false questions must have exactly two options');
+    }
+    return problems;
+  }
+};
+
+const multiSelect = {
+  normalize: (question) => question,
+  validate(question) {
+    const problems = validateOptions(question);
+    if (problems.length === 0 && (!isUniqueIndexList(question, question.correctOptions) || question.correctOptions.length === 0)) {
+      problems.push('correctOptions must be a non-empty list of distinct option indexes');
+    }
+    return problems;
+  },
+  sanitize: (question) => ({ options: question.options }),
+  isValidAnswer: (question, answer) => isUniqueIndexList(question, answer) && answer.length > 0,
+  // Each right pick earns a share of the points, each wrong pick takes one back
+  grade(question, answer) {
+    const hits = answer.filter(index => question.correctOptions.includes(index)).length;
+    const misses = answer.length - hits;
+    const isCorrect = hits === question.correctOptions.length && misses === 0;
+    const credit = Math.max(0, (hits - misses) / question.correctOptions.length);
+    return { isCorrect, credit: Math.round(credit * 100) / 100 };
+  },
+  tally: countPicks,
+  pollable: true,
+  survivalSafe: true,
+  wrongOptions: (question) => question.options.map((_, index) => index).filter(index => !question.correctOptions.includes(index)),
+  reveal: (question) => ({ correctOptions: question.correctOptions })
+};
+
+const numeric = {
+  // range is how far off a guess can be before it earns nothing
+  normalize: (question) => ({
+    tolerance: 0,
+    range: Math.abs(question.correctAnswer) / 2 || 10,
+    ...question
+  }),
+  validate(question) {
+    const problems = [];
+    if (!Number.isFinite(question.correctAnswer)) {
+      problems.push('correctAnswer must be a number');
+    }
+    if (!Number.isFinite(question.tolerance) || question.tolerance < 0) {
+      problems.push('tolerance must be a non-negative number');
+    }
+    if (!Number.isFinite(question.range) || question.range <= 0) {
+      problems.push('range must be a positive number');
+    }
+    if (question.unit !== undefined && typeof question.unit !== 'string') {
+      problems.push('unit must be a string');
+    }
+    return problems;
+  },
+  sanitize: (question) => ({
+    options: [],
+    unit: question.unit,
+    min: question.min,
+    max: question.max
+  }),
+  isValidAnswer: (question, answer) => typeof answer === 'number' && Number.isFinite(answer),
+  // Full points within tolerance, then falling off linearly with distance
+  grade(question, answer) {
+    const distance = Math.abs(answer - question.correctAnswer);
+    const isCorrect = distance <= question.tolerance;
+    const credit = isCorrect ? 1 : Math.max(0, 1 - distance / question.range);
+    return { isCorrect, credit: Math.round(credit * 100) / 100 };
+  },
+  // Guesses have no options to count
+  tally: () => [],
+  pollable: false,
+  survivalSafe: false,
+  wrongOptions: () => [],
+  reveal: (question) => ({ correctAnswer: question.correctAnswer })
+};
+
+const ordering = {
+  normalize: (question) => question,
+  validate(question) {
+    const problems = validateOptions(question);
+    if (problems.length === 0 && !isPermutation(question, question.correctOrder)) {
+      problems.push('correctOrder must list every option index exactly once');
+    }
+    return problems;
+  },
+  sanitize: (question) => ({ options: question.options }),
+  isValidAnswer: (question, answer) => isPermutation(question, answer),
+  // Credit for each item placed in its correct position
+  grade(question, answer) {
+    const inPlace = answer.filter((index, position) => question.correctOrder[position] === index).length;
+    const isCorrect = inPlace === answer.length;
+    return { isCorrect, credit: Math.round((inPlace / answer.length) * 100) / 100 };
+  },
+  // Per option, how many players put it in its correct position
+  tally(question, answers) {
+    const counts = question.options.map(() => 0);
+    answers.forEach(answer => {
+      answer.forEach((index, position) => {
+        if (question.correctOrder[position] === index) counts[index]++;
+      });
+    });
+    return counts;
+  },
+  // The tally counts correct placements, so showing it early would give the order away
+  pollable: false,
+  survivalSafe: false,
+  wrongOptions: () => [],
+  reveal: (question) => ({ correctOrder: question.correctOrder })
+};
+
+const QUESTION_TYPES = {
+  'single': singleChoice,
+  'true-false': trueFalse,
+  'multi-select': multiSelect,
+  'numeric': numeric,
+  'ordering': ordering
+};
+
+// Get the rules for a question, treating untyped questions as single choice
+const getQuestionType = (question) => {
+  return QUESTION_TYPES[question.type || DEFAULT_TYPE];
+};
+
+module.exports = {
+  QUESTION_TYPES,
+  DEFAULT_TYPE,
+  getQuestionType
+};
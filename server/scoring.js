@@ -0,0 +1,73 @@
+const DEFAULT_SCORING = {
+  basePoints: 10,          // points for any correct answer
+  maxSpeedBonus: 10,       // extra points for answering the instant the question appears
+  streakMultipliers: [     // applied once a player has this many correct answers in a row
+    { streak: 3, multiplier: 1.5 },
+    { streak: 5, multiplier: 2 }
+  ],
+  wrongAnswerPenalty: 0    // points taken away for a wrong answer (negative marking)
+};
+
+class ScoringEngine {
+  constructor(config = {}) {
+    this.config = { ...DEFAULT_SCORING, ...config };
+    // Highest streak threshold first so the best multiplier wins
+    this.config.streakMultipliers = [...this.config.streakMultipliers].sort((a, b) => b.streak - a.streak);
+    console.log('ScoringEngine initialized', this.config);
+  }
+
+  // Score one answer. streak is the player's correct-answer streak before this answer.
+  // credit (0-1) scales the points for partially right answers; only fully
+  // correct answers extend the streak. boost multiplies everything earned (e.g. a double points power-up).
+  scoreAnswer({ isCorrect, credit = isCorrect ? 1 : 0, timeRemainingMs, timeLimitMs, streak = 0, boost = 1 }) {
+    if (credit <= 0) {
+      const penalty = this.config.wrongAnswerPenalty;
+      return {
+        base: 0,
+        speedBonus: 0,
+        streakBonus: 0,
+        boostBonus: 0,
+        penalty,
+        multiplier: 1,
+        credit: 0,
+        total: -penalty,
+        streak: 0
+      };
+    }
+
+    const newStreak = isCorrect ? streak + 1 : 0;
+    const base = Math.round(this.config.basePoints * credit);
+    const speedBonus = Math.round(this.calculateSpeedBonus(timeRemainingMs, timeLimitMs) * credit);
+    const multiplier = this.getStreakMultiplier(newStreak);
+    const streakBonus = Math.round((base + speedBonus) * (multiplier - 1));
+    const boostBonus = Math.round((base + speedBonus + streakBonus) * (boost - 1));
+
+    return {
+      base,
+      speedBonus,
+      streakBonus,
+      boostBonus,
+      penalty: 0,
+      multiplier,
+      credit,
+      total: base + speedBonus + streakBonus + boostBonus,
+      streak: newStreak
+    };
+  }
+
+  // Scale the speed bonus by the share of the question time still left
+  calculateSpeedBonus(timeRemainingMs, timeLimitMs) {
+    if (!timeLimitMs || timeLimitMs <= 0) return 0;
+    const fraction = Math.min(1, Math.max(0, timeRemainingMs / timeLimitMs));
+    return Math.round(this.config.maxSpeedBonus * fraction);
+  }
+
+  // Get the multiplier earned by a streak of the given length
+  getStreakMultiplier(streak) {
+    const tier = this.config.streakMultipliers.find(t => streak >= t.streak);
+    return tier ? tier.multiplier : 1;
+  }
+}
+
+module.exports = ScoringEngine;
+module.exports.DEFAULT_SCORING = DEFAULT_SCORING;
@@ -0,0 +1,12 @@
+'use client';
+
+import React from 'react';
+import AdminDashboard from '../components/AdminDashboard';
+
+export default function AdminPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 dark:from-gray-900 dark:via-blue-900 dark:to-indigo-900">
+      <AdminDashboard />
+    </div>
+  );
+}
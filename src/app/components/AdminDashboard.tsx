@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { io } from 'socket.io-client';
+import { SERVER_URL } from '../context/GameContext';
+import { HEALTH_COLORS, HEALTH_LABELS, Sparkline } from './NetworkStats';
+import { AdminSession, AdminSnapshot } from '../types';
+
+// sessionStorage key holding the admin token, so a refresh doesn't ask for it again
+const ADMIN_TOKEN_KEY = 'quizAdminToken';
+
+// Messages for errors that stop the dashboard connecting
+const ADMIN_ERRORS: Record<string, string> = {
+  UNAUTHORIZED: 'That admin token is not valid.',
+  ADMIN_DISABLED: 'The admin dashboard is turned off. Set ADMIN_TOKEN on the game server to enable it.'
+};
+
+const STATUS_STYLES: Record<AdminSession['status'], string> = {
+  lobby: 'bg-blue-500/30 text-blue-200',
+  playing: 'bg-green-500/30 text-green-200',
+  ended: 'bg-gray-500/30 text-gray-300'
+};
+
+// Turn a number of seconds into a short label such as "2h 5m" or "42s"
+const formatUptime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+const SummaryCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex-1 rounded-lg bg-white/5 border border-white/10 p-4">
+    <div className="text-xs uppercase tracking-wide text-gray-400">{label}</div>
+    <div className="text-2xl font-bold text-white">{value}</div>
+  </div>
+);
+
+// One session's progress, its players' connections and the timers it was given
+const SessionCard: React.FC<{ session: AdminSession }> = ({ session }) => {
+  const progress = session.status === 'playing' && session.questionIndex >= 0
+    ? `Question ${session.questionIndex + 1}/${session.totalQuestions}`
+    : session.status === 'lobby' ? 'Waiting in lobby' : 'Showing results';
+
+  return (
+    <div className="rounded-lg bg-white/5 border border-white/10 p-4">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="font-mono text-white">{session.id}</span>
+        {session.roomCode && <span className="font-mono text-sm text-purple-300">#{session.roomCode}</span>}
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[session.status]}`}>{session.status}</span>
+        {session.isPaused && <span className="px-2 py-0.5 rounded text-xs font-medium bg-yellow-500/30 text-yellow-200">paused</span>}
+        <span className="text-sm text-gray-300">{session.mode}</span>
+        <span className="ml-auto text-sm text-gray-300">
+          {progress}
+          {session.spectatorCount > 0 && ` · 👀 ${session.spectatorCount}`}
+        </span>
+      </div>
+
+      {session.players.length === 0 ? (
+        <p className="text-sm text-gray-400">No players.</p>
+      ) : (
+        <table className="w-full text-left text-sm text-white">
+          <thead>
+            <tr className="text-xs uppercase tracking-wide text-gray-400">
+              <th className="py-1">Player</th>
+              <th className="py-1">Health</th>
+              <th className="py-1 text-right">Latency</th>
+              <th className="py-1 text-right">Jitter</th>
+              <th className="py-1 text-right">Loss</th>
+              <th className="py-1 text-right">Grace</th>
+              <th className="py-1 pl-4">History</th>
+            </tr>
+          </thead>
+          <tbody>
+            {session.players.map(p => (
+              <tr key={p.id} className="border-t border-white/10">
+                <td className="py-2">
+                  {p.name}
+                  {p.isAway && <span className="ml-1 text-xs text-gray-400">(away)</span>}
+                  <span className="ml-2 text-xs text-gray-400">{p.score} pts</span>
+                </td>
+                <td className="py-2">
+                  {p.network ? (
+                    <span className="flex items-center gap-2">
+                      <span className={`w-3 h-3 rounded-full ${HEALTH_COLORS[p.network.health]}`}></span>
+                      {HEALTH_LABELS[p.network.health]}
+                    </span>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </td>
+                <td className="py-2 text-right">{p.network ? `${p.network.latency}ms (avg ${p.network.averageLatency}ms)` : '—'}</td>
+                <td className="py-2 text-right">{p.network ? `${p.network.jitter}ms` : '—'}</td>
+                <td className="py-2 text-right">{p.network ? `${p.network.packetLoss.toFixed(1)}%` : '—'}</td>
+                <td className="py-2 text-right">{p.answerGraceMs}ms</td>
+                <td className="py-2 pl-4 text-purple-300">
+                  {p.network && <Sparkline values={p.network.history} />}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {session.timerDecisions.length > 0 && (
+        <div className="mt-3">
+          <div className="text-xs uppercase tracking-wide text-gray-400 mb-1">Question timers</div>
+          <div className="flex flex-wrap gap-2">
+            {session.timerDecisions.map(decision => (
+              <span
+                key={decision.questionIndex}
+                title={`${decision.timerMode} timer, decided at ${new Date(decision.decidedAt).toLocaleTimeString()}`}
+                className="px-2 py-1 rounded bg-white/10 text-xs text-gray-200"
+              >
+                Q{decision.questionIndex + 1} · {decision.timerMode === 'fixed' ? 'fixed' : `${decision.averageLatency}ms avg`} → {decision.timeLimit}s
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Live view of the server's sessions, connections and queue, streamed from its admin namespace
+const AdminDashboard: React.FC = () => {
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [snapshot, setSnapshot] = useState<AdminSnapshot | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [connectError, setConnectError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(ADMIN_TOKEN_KEY));
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+
+    setConnectError(null);
+    const adminSocket = io(`${SERVER_URL}/admin`, { auth: { token } });
+
+    adminSocket.on('connect', () => setIsConnected(true));
+    adminSocket.on('disconnect', () => setIsConnected(false));
+    adminSocket.on('admin-stats', (data: AdminSnapshot) => setSnapshot(data));
+    adminSocket.on('connect_error', (error: Error) => {
+      console.error('Admin dashboard could not connect:', error.message);
+      setConnectError(error.message);
+      // A refused token won't start working on retry
+      if (ADMIN_ERRORS[error.message]) {
+        adminSocket.disconnect();
+        sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+        setToken(null);
+      }
+    });
+
+    return () => {
+      adminSocket.disconnect();
+    };
+  }, [token]);
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = tokenInput.trim();
+    if (!value) return;
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, value);
+    setToken(value);
+    setTokenInput('');
+  };
+
+  const handleSignOut = () => {
+    sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+    setToken(null);
+    setSnapshot(null);
+    setIsConnected(false);
+  };
+
+  const playerCount = snapshot ? snapshot.sessions.reduce((total, s) => total + s.players.length, 0) : 0;
+
+  return (
+    <div className="relative z-10 flex flex-col items-center min-h-screen p-4 pt-12">
+      <motion.div
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        className="w-full max-w-5xl bg-white/10 backdrop-blur-sm rounded-xl shadow-2xl p-6"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-white">📡 Network Dashboard</h1>
+          <div className="flex items-center gap-2">
+            {token && (
+              <>
+                <span className={`w-3 h-3 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} title={isConnected ? 'Live' : 'Disconnected'}></span>
+                <button onClick={handleSignOut} className="px-3 py-1.5 rounded-lg text-sm text-gray-300 hover:text-white hover:bg-white/10">
+                  Sign out
+                </button>
+              </>
+            )}
+            <Link href="/" className="px-3 py-1.5 rounded-lg text-sm text-gray-300 hover:text-white hover:bg-white/10">
+              Back
+            </Link>
+          </div>
+        </div>
+
+        {!token ? (
+          <form onSubmit={handleSignIn} className="max-w-md mx-auto">
+            <p className="text-gray-300 text-center mb-4">Enter the admin token configured on the game server.</p>
+            <input
+              type="password"
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              placeholder="Admin token"
+              className="w-full mb-4 px-6 py-3 rounded-xl bg-white/10 border border-white/20 text-white placeholder-white/50
+                       focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+            />
+            {connectError && (
+              <p className="mb-4 text-center text-sm text-red-300">{ADMIN_ERRORS[connectError] || connectError}</p>
+            )}
+            <button
+              type="submit"
+              className="w-full py-3 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold shadow-lg"
+            >
+              Open Dashboard
+            </button>
+          </form>
+        ) : !snapshot ? (
+          <p className="py-8 text-center text-gray-300">{connectError ? `Could not reach the game server (${connectError}). Retrying...` : 'Connecting...'}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3 mb-6">
+              <SummaryCard label="Sessions" value={`${snapshot.sessions.length}/${snapshot.maxSessions}`} />
+              <SummaryCard label="Players" value={String(playerCount)} />
+              <SummaryCard label="Queue" value={`${snapshot.queueLength}/${snapshot.maxQueueLength}`} />
+              <SummaryCard label="Uptime" value={formatUptime(snapshot.uptimeSeconds)} />
+            </div>
+
+            {snapshot.sessions.length === 0 ? (
+              <p className="py-8 text-center text-gray-300">No sessions are running.</p>
+            ) : (
+              <div className="space-y-4">
+                {snapshot.sessions.map(session => (
+                  <SessionCard key={session.id} session={session} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default AdminDashboard;
@@ -5,11 +5,11 @@ import VideoGrid from './VideoGrid';
 import { useGame } from '../context/GameContext';
 
 export default function ClientWrapper() {
-  const { mode } = useGame();
+  const { mode, isSpectator } = useGame();
   return (
     <>
       <NetworkStats />
-      {mode === 'conference' && <VideoGrid />}
+      {mode === 'conference' && !isSpectator && <VideoGrid />}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+
+interface DistributionBarProps {
+  count: number;
+  total: number;
+  delay?: number;
+}
+
+// Fills its (relative, overflow-hidden) parent from the left by count/total,
+// with the count shown at the right edge
+const DistributionBar: React.FC<DistributionBarProps> = ({ count, total, delay = 0 }) => {
+  const share = total > 0 ? count / total : 0;
+
+  return (
+    <>
+      <motion.div
+        className="absolute inset-y-0 left-0 bg-white/15 pointer-events-none"
+        initial={{ width: '0%' }}
+        animate={{ width: `${share * 100}%` }}
+        transition={{ duration: 0.8, delay, ease: 'easeOut' }}
+      />
+      <motion.span
+        className="absolute right-4 top-1/2 -translate-y-1/2 text-sm font-semibold text-white/90"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: delay + 0.4 }}
+      >
+        {count}
+      </motion.span>
+    </>
+  );
+};
+
+export default DistributionBar;
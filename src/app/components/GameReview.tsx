@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useGame } from '../context/GameContext';
+import { Question, AnswerValue } from '../types';
+
+// Describe an answer in words, whatever the question type
+const formatAnswer = (question: Question, answer: AnswerValue | null | undefined) => {
+  if (answer === null || answer === undefined) return 'No answer';
+  if (question.type === 'numeric' && typeof answer === 'number') {
+    return `${answer}${question.unit ? ` ${question.unit}` : ''}`;
+  }
+  if (Array.isArray(answer)) {
+    return answer.map(index => question.options[index]).join(question.type === 'ordering' ? ' → ' : ', ');
+  }
+  return question.options[answer] ?? String(answer);
+};
+
+// Describe the correct answer from the fields revealed for the question's type
+const formatCorrectAnswer = (question: Question) => {
+  switch (question.type) {
+    case 'multi-select':
+      return formatAnswer(question, question.correctOptions);
+    case 'ordering':
+      return formatAnswer(question, question.correctOrder);
+    case 'numeric':
+      return formatAnswer(question, question.correctAnswer);
+    default:
+      return formatAnswer(question, question.correctOption);
+  }
+};
+
+const GameReview: React.FC = () => {
+  const { gameState, player, isSpectator } = useGame();
+  const [index, setIndex] = useState(0);
+
+  const review = gameState.review || [];
+  if (review.length === 0) {
+    return <p className="text-center text-gray-300">No questions were played.</p>;
+  }
+
+  const entry = review[Math.min(index, review.length - 1)];
+  const { question, room } = entry;
+  const myAnswer = entry.answers.find(a => a.playerId === player?.id);
+
+  const getPlayerName = (playerId: string) => {
+    return gameState.players.find(p => p.id === playerId)?.name || 'Unknown Player';
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3 text-sm text-gray-300">
+        <button
+          onClick={() => setIndex(i => Math.max(0, i - 1))}
+          disabled={index === 0}
+          className="px-3 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30"
+        >
+          ← Prev
+        </button>
+        <span>Question {entry.questionNumber} of {review.length}</span>
+        <button
+          onClick={() => setIndex(i => Math.min(review.length - 1, i + 1))}
+          disabled={index === review.length - 1}
+          className="px-3 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30"
+        >
+          Next →
+        </button>
+      </div>
+
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={entry.questionNumber}
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: -20 }}
+          className="space-y-3 text-white"
+        >
+          <h4 className="text-lg font-semibold">{question.question}</h4>
+
+          {!isSpectator && (
+            <div className={`p-3 rounded-lg border ${myAnswer?.isCorrect
+              ? 'bg-green-500/20 border-green-500'
+              : myAnswer && myAnswer.points > 0
+                ? 'bg-yellow-500/20 border-yellow-500'
+                : 'bg-red-500/20 border-red-500'}`}>
+              <p className="text-xs uppercase tracking-wide text-gray-300">Your answer</p>
+              <p>{formatAnswer(question, myAnswer?.answer)}</p>
+              {myAnswer && myAnswer.points !== 0 && (
+                <p className="text-sm text-gray-300">{myAnswer.points > 0 ? '+' : ''}{myAnswer.points} points</p>
+              )}
+            </div>
+          )}
+
+          <div className="p-3 rounded-lg bg-white/5 border border-white/10">
+            <p className="text-xs uppercase tracking-wide text-gray-300">Correct answer</p>
+            <p>{formatCorrectAnswer(question)}</p>
+          </div>
+
+          {question.explanation && (
+            <p className="text-sm text-gray-200">💡 {question.explanation}</p>
+          )}
+
+          <div className="p-3 rounded-lg bg-white/5 border border-white/10 text-sm">
+            <p className="text-xs uppercase tracking-wide text-gray-300 mb-1">
+              The room · {room.correct} of {room.players} correct · {room.answered} answered
+            </p>
+            <ul className="space-y-1">
+              {entry.answers.map(answer => (
+                <li key={answer.playerId} className="flex justify-between gap-2">
+                  <span className="text-gray-200">{getPlayerName(answer.playerId)}</span>
+                  <span className={answer.isCorrect ? 'text-green-300' : answer.answer === null ? 'text-gray-400' : 'text-red-300'}>
+                    {formatAnswer(question, answer.answer)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </motion.div>
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default GameReview;
@@ -0,0 +1,163 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useGame } from '../context/GameContext';
+import { GameSettings, TeamScoring } from '../types';
+
+// How each team scoring rule reads to players
+const TEAM_SCORING_LABELS: Record<TeamScoring, string> = {
+  sum: 'sum of answers',
+  average: 'average answer',
+  best: 'best answer counts'
+};
+
+const selectClass = 'w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/50';
+
+const GameSettingsPanel: React.FC = () => {
+  const { gameState, player, updateSettings } = useGame();
+  const { settings, settingsOptions } = gameState;
+
+  if (!settings) return null;
+
+  const canEdit = !!player?.isHost && !!settingsOptions;
+
+  // Everyone but the host sees a read-only summary
+  if (!canEdit) {
+    return (
+      <div className="mb-8 p-4 bg-white/5 backdrop-blur-sm dark:bg-gray-700/50 rounded-lg border border-white/10 text-sm text-gray-200">
+        <h3 className="text-lg font-semibold text-white mb-2">Game Settings</h3>
+        <ul className="space-y-1">
+          <li>{settings.survivalMode ? `Survival · ${settings.lives} ${settings.lives === 1 ? 'life' : 'lives'}` : `${settings.questionCount} questions`} · {settings.category === 'any' ? 'any category' : settings.category} · {settings.difficulty}</li>
+          <li>{settings.timerMode === 'fixed' ? `${settings.questionTimer}s per question` : 'Adaptive timer'} · {settings.revealDelay}s answer reveal</li>
+          <li>Up to {settings.maxPlayers} players</li>
+          {settings.teamMode && (
+            <li>{settings.teamCount} teams · {TEAM_SCORING_LABELS[settings.teamScoring]}</li>
+          )}
+        </ul>
+      </div>
+    );
+  }
+
+  const { limits } = settingsOptions;
+
+  const numberInput = (key: keyof typeof limits, label: string) => (
+    <label className="block">
+      <span className="text-xs text-gray-300">{label}</span>
+      <input
+        type="number"
+        min={limits[key][0]}
+        max={limits[key][1]}
+        value={settings[key]}
+        onChange={(e) => updateSettings({ [key]: Number(e.target.value) } as Partial<GameSettings>)}
+        className={selectClass}
+      />
+    </label>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="mb-8 p-4 bg-white/5 backdrop-blur-sm dark:bg-gray-700/50 rounded-lg border border-white/10"
+    >
+      <h3 className="text-lg font-semibold text-white mb-3">Game Settings</h3>
+      <div className="grid grid-cols-2 gap-3">
+        {settings.survivalMode
+          ? numberInput('lives', 'Lives')
+          : numberInput('questionCount', 'Questions')}
+        {numberInput('maxPlayers', 'Max players')}
+
+        <label className="block">
+          <span className="text-xs text-gray-300">Category</span>
+          <select
+            value={settings.category}
+            onChange={(e) => updateSettings({ category: e.target.value })}
+            className={selectClass}
+          >
+            <option value="any" className="text-black">Any</option>
+            {settingsOptions.categories.map(category => (
+              <option key={category} value={category} className="text-black">{category}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="text-xs text-gray-300">Difficulty</span>
+          <select
+            value={settings.difficulty}
+            onChange={(e) => updateSettings({ difficulty: e.target.value as GameSettings['difficulty'] })}
+            className={selectClass}
+          >
+            {settingsOptions.difficulties.map(difficulty => (
+              <option key={difficulty} value={difficulty} className="text-black">{difficulty}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="text-xs text-gray-300">Timer</span>
+          <select
+            value={settings.timerMode}
+            onChange={(e) => updateSettings({ timerMode: e.target.value as GameSettings['timerMode'] })}
+            className={selectClass}
+          >
+            {settingsOptions.timerModes.map(timerMode => (
+              <option key={timerMode} value={timerMode} className="text-black">{timerMode}</option>
+            ))}
+          </select>
+        </label>
+
+        {settings.timerMode === 'fixed'
+          ? numberInput('questionTimer', 'Seconds per question')
+          : <div />}
+
+        {numberInput('revealDelay', 'Reveal delay (s)')}
+
+        <label className="block">
+          <span className="text-xs text-gray-300">Teams</span>
+          <select
+            value={settings.teamMode ? 'on' : 'off'}
+            onChange={(e) => updateSettings({ teamMode: e.target.value === 'on' })}
+            className={selectClass}
+          >
+            <option value="off" className="text-black">Everyone for themselves</option>
+            <option value="on" className="text-black">Play in teams</option>
+          </select>
+        </label>
+
+        {settings.teamMode ? (
+          <>
+            {numberInput('teamCount', 'Number of teams')}
+            <label className="block col-span-2">
+              <span className="text-xs text-gray-300">Team score per question</span>
+              <select
+                value={settings.teamScoring}
+                onChange={(e) => updateSettings({ teamScoring: e.target.value as TeamScoring })}
+                className={selectClass}
+              >
+                {settingsOptions.teamScorings.map(teamScoring => (
+                  <option key={teamScoring} value={teamScoring} className="text-black">{TEAM_SCORING_LABELS[teamScoring]}</option>
+                ))}
+              </select>
+            </label>
+          </>
+        ) : <div />}
+
+        <label className="block col-span-2">
+          <span className="text-xs text-gray-300">Game type</span>
+          <select
+            value={settings.survivalMode ? 'survival' : 'classic'}
+            onChange={(e) => updateSettings({ survivalMode: e.target.value === 'survival' })}
+            className={selectClass}
+          >
+            <option value="classic" className="text-black">Classic: a fixed number of questions</option>
+            <option value="survival" className="text-black">Survival: wrong answers cost lives, last one standing wins</option>
+          </select>
+        </label>
+      </div>
+    </motion.div>
+  );
+};
+
+export default GameSettingsPanel;
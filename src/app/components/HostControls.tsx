@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useGame } from '../context/GameContext';
+import { Player } from '../types';
+
+const controlButtonClass = 'px-3 py-2 rounded-lg text-sm font-medium text-white backdrop-blur-sm transition-colors duration-200';
+
+const HostControls: React.FC = () => {
+  const { gameState, player, startGame, kickPlayer, pauseGame, resumeGame, skipQuestion, endGame } = useGame();
+  const [showPanel, setShowPanel] = React.useState<boolean>(true);
+
+  // Only the session host gets the panel
+  if (!player?.isHost) return null;
+
+  const isLobby = gameState.gameState === 'lobby';
+  const isRevealed = !!gameState.currentQuestion?.revealed;
+  const otherPlayers = gameState.players.filter(p => p.id !== player.id);
+
+  const handleKick = (target: Player) => {
+    if (confirm(`Remove ${target.name} from the game?`)) {
+      kickPlayer(target.id);
+    }
+  };
+
+  const handleEndGame = () => {
+    if (confirm('End the game now and show the results?')) {
+      endGame();
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="mt-6 p-4 bg-white/5 backdrop-blur-sm dark:bg-gray-700/50 rounded-lg border border-yellow-400/30"
+    >
+      <div
+        className="flex justify-between items-center cursor-pointer"
+        onClick={() => setShowPanel(!showPanel)}
+      >
+        <h3 className="text-lg font-semibold text-white">👑 Host Controls</h3>
+        <span className="text-white font-bold text-xl">
+          {showPanel ? '▾' : '▸'}
+        </span>
+      </div>
+
+      {showPanel && (
+        <>
+          <div className="flex flex-wrap gap-2 mt-3">
+            {isLobby ? (
+              <button
+                onClick={startGame}
+                className={`${controlButtonClass} bg-green-500/70 hover:bg-green-600/90`}
+              >
+                Start Now
+              </button>
+            ) : (
+              <>
+                {gameState.isPaused ? (
+                  <button
+                    onClick={resumeGame}
+                    className={`${controlButtonClass} bg-green-500/70 hover:bg-green-600/90`}
+                  >
+                    Resume
+                  </button>
+                ) : (
+                  <button
+                    onClick={pauseGame}
+                    disabled={isRevealed}
+                    className={`${controlButtonClass} bg-yellow-500/70 hover:bg-yellow-600/90 disabled:opacity-50 disabled:cursor-not-allowed`}
+                  >
+                    Pause
+                  </button>
+                )}
+                <button
+                  onClick={skipQuestion}
+                  className={`${controlButtonClass} bg-indigo-500/70 hover:bg-indigo-600/90`}
+                >
+                  Skip Question
+                </button>
+                <button
+                  onClick={handleEndGame}
+                  className={`${controlButtonClass} bg-red-500/70 hover:bg-red-600/90`}
+                >
+                  End Game
+                </button>
+              </>
+            )}
+          </div>
+
+          {otherPlayers.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {otherPlayers.map((p) => (
+                <li key={p.id} className="flex justify-between items-center text-white text-sm">
+                  <span>{p.name}</span>
+                  <button
+                    onClick={() => handleKick(p)}
+                    className="px-2 py-1 rounded bg-red-500/40 hover:bg-red-500/80 text-xs"
+                  >
+                    Kick
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default HostControls;
@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { useGame, SERVER_URL } from '../context/GameContext';
+import PlayerAvatar from './PlayerAvatar';
+import { LeaderboardEntry, LeaderboardSort } from '../types';
+
+const SORT_LABELS: Record<LeaderboardSort, string> = {
+  wins: 'Wins',
+  accuracy: 'Accuracy',
+  averageResponseTime: 'Fastest',
+  gamesPlayed: 'Games'
+};
+
+// All-time stats for every player, loaded from the server's leaderboard route
+const LeaderboardScreen: React.FC = () => {
+  const { profile } = useGame();
+  const [sortBy, setSortBy] = useState<LeaderboardSort>('wins');
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoadError(false);
+
+    fetch(`${SERVER_URL}/api/leaderboard?sort=${sortBy}`, { signal: controller.signal })
+      .then(res => {
+        if (!res.ok) throw new Error(`Leaderboard request failed with ${res.status}`);
+        return res.json();
+      })
+      .then((data: { players: LeaderboardEntry[] }) => setEntries(data.players))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Could not load leaderboard:', error);
+        setLoadError(true);
+      });
+
+    return () => controller.abort();
+  }, [sortBy]);
+
+  return (
+    <div className="relative z-10 flex flex-col items-center min-h-screen p-4 pt-12">
+      <motion.div
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        className="w-full max-w-2xl bg-white/10 backdrop-blur-sm rounded-xl shadow-2xl p-6"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-white">🏆 All-time Leaderboard</h1>
+          <Link href="/" className="px-3 py-1.5 rounded-lg text-sm text-gray-300 hover:text-white hover:bg-white/10">
+            Back
+          </Link>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          {(Object.keys(SORT_LABELS) as LeaderboardSort[]).map(sort => (
+            <button
+              key={sort}
+              onClick={() => setSortBy(sort)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${sortBy === sort ? 'bg-indigo-500 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+            >
+              {SORT_LABELS[sort]}
+            </button>
+          ))}
+        </div>
+
+        {loadError ? (
+          <p className="py-8 text-center text-red-300">The leaderboard could not be loaded. Try again in a moment.</p>
+        ) : !entries ? (
+          <p className="py-8 text-center text-gray-300">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="py-8 text-center text-gray-300">No finished games yet. Play one to get on the board!</p>
+        ) : (
+          <table className="w-full text-left text-white">
+            <thead>
+              <tr className="text-xs uppercase tracking-wide text-gray-400">
+                <th className="py-2 pl-2 w-10">#</th>
+                <th className="py-2">Player</th>
+                <th className="py-2 text-right">Wins</th>
+                <th className="py-2 text-right">Accuracy</th>
+                <th className="py-2 text-right">Avg time</th>
+                <th className="py-2 pr-2 text-right">Games</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry, index) => (
+                <tr
+                  key={entry.playerKey}
+                  className={`border-t border-white/10 ${entry.playerKey === profile?.profileId ? 'bg-purple-500/20' : ''}`}
+                >
+                  <td className="py-3 pl-2 font-bold text-purple-300">{index + 1}</td>
+                  <td className="py-3">
+                    <span className="flex items-center gap-2">
+                      <PlayerAvatar name={entry.nickname} avatar={entry.avatar} color={entry.color} size="sm" />
+                      {entry.nickname}
+                      {entry.playerKey === profile?.profileId && <span className="text-xs text-gray-300">(you)</span>}
+                    </span>
+                  </td>
+                  <td className="py-3 text-right">{entry.wins}</td>
+                  <td className="py-3 text-right">{Math.round(entry.accuracy * 100)}%</td>
+                  <td className="py-3 text-right">
+                    {entry.averageResponseTimeMs === null ? '—' : `${(entry.averageResponseTimeMs / 1000).toFixed(1)}s`}
+                  </td>
+                  <td className="py-3 pr-2 text-right">{entry.gamesPlayed}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default LeaderboardScreen;
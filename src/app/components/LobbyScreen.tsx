@@ -3,25 +3,19 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { useGame } from '../context/GameContext';
-import Timer from './Timer';
+import Timer, { useCountdown } from './Timer';
+import HostControls from './HostControls';
+import GameSettingsPanel from './GameSettingsPanel';
+import PlayerAvatar from './PlayerAvatar';
+import TeamPanel from './TeamPanel';
 
 
 const LobbyScreen: React.FC = () => {
-  const { gameState, player, setReady, disconnect } = useGame();
-  const [lobbyTimeRemaining, setLobbyTimeRemaining] = React.useState(gameState.lobbyTimeRemaining);
+  const { gameState, player, isSpectator, clockOffset, setReady, disconnect } = useGame();
 
-  // Manage lobby countdown, resetting when server emits new lobbyTimeRemaining
-  React.useEffect(() => {
-    if (gameState.gameState === 'lobby') {
-      // reset from server value
-      setLobbyTimeRemaining(gameState.lobbyTimeRemaining);
-      // start local countdown
-      const timer = setInterval(() => {
-        setLobbyTimeRemaining(prev => Math.max(0, prev - 1));
-      }, 1000);
-      return () => clearInterval(timer);
-    }
-  }, [gameState.lobbyTimeRemaining, gameState.gameState]);
+  // Count down to the server's lobby deadline, moved onto this client's clock
+  const lobbyDeadline = gameState.lobbyEndTime ? gameState.lobbyEndTime + clockOffset : null;
+  const lobbyTimeRemaining = Math.ceil(useCountdown(lobbyDeadline, gameState.lobbyTimeRemaining * 1000, 1000) / 1000);
 
   return (
     <>
@@ -43,15 +37,24 @@ const LobbyScreen: React.FC = () => {
           <h2 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-400 to-pink-600 dark:from-blue-400 dark:to-indigo-600 mb-4">
             Game Lobby
           </h2>
-          <Timer time={lobbyTimeRemaining} />
+          {gameState.isPrivate && gameState.roomCode && (
+            <div className="mb-4">
+              <p className="text-sm text-gray-300">Share this code to invite players</p>
+              <p className="text-3xl font-mono font-bold tracking-widest text-white">{gameState.roomCode}</p>
+            </div>
+          )}
+          <Timer deadline={lobbyDeadline} time={gameState.lobbyTimeRemaining} />
           <p className="text-gray-200 dark:text-gray-300 mt-2">
             Game will start automatically in {lobbyTimeRemaining} seconds
           </p>
         </div>
 
+        <GameSettingsPanel />
+        <TeamPanel />
+
         <div className="mb-8">
           <h3 className="text-xl font-semibold text-gray-200 dark:text-gray-300 mb-4">
-            Players ({gameState.players?.length || 0})
+            Players ({gameState.players?.length || 0}{gameState.settings ? `/${gameState.settings.maxPlayers}` : ''})
           </h3>
           <div className="space-y-3">
             {gameState.players?.map((p) => (
@@ -61,9 +64,12 @@ const LobbyScreen: React.FC = () => {
                 animate={{ opacity: 1, x: 0 }}
                 className="flex items-center justify-between p-4 bg-white/5 backdrop-blur-sm dark:bg-gray-700/50 rounded-lg border border-white/10"
               >
-                <span className="text-gray-200 dark:text-white font-medium">
-                  {p.name}
-                  {p.isHost && ' 👑'}
+                <span className="flex items-center gap-3 text-gray-200 dark:text-white font-medium">
+                  <PlayerAvatar name={p.name} avatar={p.avatar} color={p.color} />
+                  <span>
+                    {p.name}
+                    {p.isHost && ' 👑'}
+                  </span>
                 </span>
                 <span className={`text-sm font-medium ${p.isReady ? 'text-green-400' : 'text-gray-400'}`}>
                   {p.isReady ? 'Ready' : 'Waiting...'}
@@ -71,10 +77,17 @@ const LobbyScreen: React.FC = () => {
               </motion.div>
             ))}
           </div>
+          {!!gameState.spectatorCount && (
+            <p className="mt-3 text-sm text-gray-400">👀 {gameState.spectatorCount} watching</p>
+          )}
+          <HostControls />
         </div>
 
         <div className="flex flex-col space-y-4">
-          {!player?.isReady && (
+          {isSpectator && (
+            <p className="text-center text-gray-300">👀 You are watching this game.</p>
+          )}
+          {!isSpectator && !player?.isReady && (
             <motion.button
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
@@ -91,7 +104,7 @@ const LobbyScreen: React.FC = () => {
             onClick={disconnect}
             className="w-full py-4 rounded-xl bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600 text-white font-semibold text-lg shadow-lg hover:shadow-xl transition-all duration-300"
           >
-            Quit
+            {isSpectator ? 'Stop Watching' : 'Quit'}
           </motion.button>
         </div>
       </motion.div>
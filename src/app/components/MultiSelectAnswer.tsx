@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import DistributionBar from './DistributionBar';
+import { Question, AnswerValue, RoomPoll } from '../types';
+
+interface MultiSelectAnswerProps {
+  question: Question;
+  submittedAnswer: AnswerValue | null;
+  onSubmit: (answer: number[]) => void;
+  distribution?: RoomPoll | null;
+  hiddenOptions?: number[]; // wrong options taken away by a 50/50
+  readOnly?: boolean;
+}
+
+const MultiSelectAnswer: React.FC<MultiSelectAnswerProps> = ({ question, submittedAnswer, onSubmit, distribution, hiddenOptions = [], readOnly = false }) => {
+  const [picked, setPicked] = useState<number[]>([]);
+
+  // Spectators see the question locked, as if already answered
+  const isSubmitted = readOnly || submittedAnswer !== null;
+  const isRevealed = !!question.revealed;
+  const selection = Array.isArray(submittedAnswer) ? submittedAnswer : picked;
+
+  const togglePick = (index: number) => {
+    if (isSubmitted) return;
+    setPicked(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  return (
+    <div>
+      <p className="mb-3 text-sm text-gray-300">Select every answer that applies.</p>
+      <div className="grid grid-cols-1 gap-4">
+        {question.options.map((option, index) => {
+          const isPicked = selection.includes(index);
+          const isCorrect = isRevealed && !!question.correctOptions?.includes(index);
+          const isWrong = isRevealed && isPicked && !isCorrect;
+          const isMissed = isRevealed && !isPicked && isCorrect;
+          const isHidden = !isRevealed && hiddenOptions.includes(index);
+
+          return (
+            <motion.button
+              key={index}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 + index * 0.1 }}
+              whileHover={!isSubmitted ? { scale: 1.02 } : {}}
+              whileTap={!isSubmitted ? { scale: 0.98 } : {}}
+              onClick={() => togglePick(index)}
+              disabled={isSubmitted || isHidden}
+              className={`relative overflow-hidden p-5 rounded-xl text-left transition-all duration-300 backdrop-blur-sm border
+                ${isHidden
+                  ? 'bg-white/5 border-white/5 text-gray-500 line-through opacity-40'
+                  : isWrong
+                  ? 'bg-red-500/30 border-red-500 text-white'
+                  : isMissed
+                    ? 'bg-green-500/10 border-green-500 border-dashed text-white'
+                    : isCorrect
+                      ? 'bg-green-500/30 border-green-500 text-white'
+                      : isPicked
+                        ? 'bg-purple-500/30 border-purple-400 text-white'
+                        : isSubmitted
+                          ? 'bg-white/5 border-white/10 text-gray-300'
+                          : 'bg-white/10 border-white/20 text-white hover:bg-white/20'
+                }`}
+            >
+              {distribution && (
+                <DistributionBar count={distribution.counts[index] || 0} total={distribution.answered} delay={index * 0.1} />
+              )}
+              <div className="relative flex items-center">
+                <span className={`w-8 h-8 flex items-center justify-center rounded-md
+                  ${isCorrect ? 'bg-green-500' : isWrong ? 'bg-red-500' : isPicked ? 'bg-purple-500' : 'bg-white/20'}
+                  text-white font-medium mr-4`}>
+                  {isPicked ? '✓' : String.fromCharCode(65 + index)}
+                </span>
+                <span className="font-medium text-lg">{option}</span>
+                {isMissed && <span className={`ml-auto text-xs text-green-300 ${distribution ? 'mr-8' : ''}`}>missed</span>}
+              </div>
+            </motion.button>
+          );
+        })}
+      </div>
+
+      {!isSubmitted && (
+        <motion.button
+          whileHover={picked.length > 0 ? { scale: 1.02 } : {}}
+          whileTap={picked.length > 0 ? { scale: 0.98 } : {}}
+          onClick={() => onSubmit([...picked].sort((a, b) => a - b))}
+          disabled={picked.length === 0}
+          className="mt-4 w-full py-3 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold disabled:opacity-50"
+        >
+          Submit {picked.length > 0 ? `${picked.length} answer${picked.length === 1 ? '' : 's'}` : ''}
+        </motion.button>
+      )}
+    </div>
+  );
+};
+
+export default MultiSelectAnswer;
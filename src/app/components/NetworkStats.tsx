@@ -1,52 +1,55 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useGame } from '../context/GameContext';
+import { ConnectionHealth } from '../types';
 
 interface NetworkStatsProps {}
 
-const NetworkStats: React.FC<NetworkStatsProps> = () => {
-  const { socket, gameState } = useGame();
-  const [latency, setLatency] = useState<number>(0);
-  const [packetLoss, setPacketLoss] = useState<number>(0);
-  const [lastPingTime, setLastPingTime] = useState<number>(Date.now());
-  const [showDetails, setShowDetails] = useState<boolean>(false);
-
-  useEffect(() => {
-    if (!socket) return;
+export const HEALTH_COLORS: Record<ConnectionHealth, string> = {
+  good: 'bg-green-500',
+  fair: 'bg-yellow-500',
+  poor: 'bg-red-500'
+};
 
-    const pingInterval = setInterval(() => {
-      setLastPingTime(Date.now());
-      socket.emit('ping');
-    }, 2000);
+export const HEALTH_LABELS: Record<ConnectionHealth, string> = {
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor'
+};
 
-    socket.on('pong', (data: { latency: number, packetLoss: number }) => {
-      const currentLatency = Date.now() - lastPingTime;
-      setLatency(currentLatency);
-      setPacketLoss(data.packetLoss);
-    });
+// A tiny line chart of recent round trips, scaled to the slowest one
+export const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+  const width = 80;
+  const height = 20;
+  if (values.length < 2) return null;
 
-    return () => {
-      clearInterval(pingInterval);
-      socket.off('pong');
-    };
-  }, [socket, lastPingTime]);
+  const max = Math.max(...values, 1);
+  const points = values
+    .map((value, index) => {
+      const x = (index / (values.length - 1)) * width;
+      const y = height - (value / max) * (height - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
 
-  const getNetworkHealthColor = () => {
-    if (latency < 100) return 'bg-green-500';
-    if (latency < 300) return 'bg-yellow-500';
-    return 'bg-red-500';
-  };
+  return (
+    <svg width={width} height={height} className="mt-1" aria-label="Recent latency">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round" />
+    </svg>
+  );
+};
 
-  const getNetworkHealthText = () => {
-    if (latency < 100) return 'Good';
-    if (latency < 300) return 'Fair';
-    return 'Poor';
-  };
+const NetworkStats: React.FC<NetworkStatsProps> = () => {
+  // Stats come from the heartbeat GameContext answers for this connection
+  const { socket, gameState, networkStats: stats } = useGame();
+  const [showDetails, setShowDetails] = useState<boolean>(false);
 
   if (!socket || gameState.gameState === 'idle') return null;
 
+  const health = stats?.health || 'good';
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -58,14 +61,22 @@ const NetworkStats: React.FC<NetworkStatsProps> = () => {
         onClick={() => setShowDetails(!showDetails)}
         className="flex items-center justify-center bg-white/10 backdrop-blur-sm rounded-full p-2 cursor-pointer shadow-lg"
       >
-        <div className={`w-4 h-4 rounded-full ${getNetworkHealthColor()}`}></div>
-        
+        <div className={`w-4 h-4 rounded-full ${HEALTH_COLORS[health]}`}></div>
+
         {showDetails && (
           <div className="ml-3 text-white text-sm">
-            <div className="font-medium">Network: {getNetworkHealthText()}</div>
-            <div className="text-xs opacity-80">Latency: {latency}ms</div>
-            {packetLoss > 0 && (
-              <div className="text-xs opacity-80">Packet Loss: {packetLoss.toFixed(1)}%</div>
+            <div className="font-medium">Network: {stats ? HEALTH_LABELS[health] : 'Measuring...'}</div>
+            {stats && (
+              <>
+                <div className="text-xs opacity-80">Latency: {stats.latency}ms (avg {stats.averageLatency}ms)</div>
+                <div className="text-xs opacity-80">Jitter: {stats.jitter}ms</div>
+                {stats.packetLoss > 0 && (
+                  <div className="text-xs opacity-80">Packet Loss: {stats.packetLoss.toFixed(1)}%</div>
+                )}
+                <div className="text-purple-300">
+                  <Sparkline values={stats.history} />
+                </div>
+              </>
             )}
           </div>
         )}
@@ -74,4 +85,4 @@ const NetworkStats: React.FC<NetworkStatsProps> = () => {
   );
 };
 
-export default NetworkStats; 
\ No newline at end of file
+export default NetworkStats;
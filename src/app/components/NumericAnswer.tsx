@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Question, AnswerValue } from '../types';
+
+interface NumericAnswerProps {
+  question: Question;
+  submittedAnswer: AnswerValue | null;
+  onSubmit: (answer: number) => void;
+  readOnly?: boolean;
+}
+
+const NumericAnswer: React.FC<NumericAnswerProps> = ({ question, submittedAnswer, onSubmit, readOnly = false }) => {
+  const [guess, setGuess] = useState<string>('');
+
+  const isSubmitted = submittedAnswer !== null;
+  const isRevealed = !!question.revealed && question.correctAnswer !== undefined;
+  const parsedGuess = guess.trim() === '' ? NaN : Number(guess);
+  const canSubmit = !isSubmitted && Number.isFinite(parsedGuess);
+  const myGuess = typeof submittedAnswer === 'number' ? submittedAnswer : null;
+  const unit = question.unit ? ` ${question.unit}` : '';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) {
+      onSubmit(parsedGuess);
+    }
+  };
+
+  return (
+    <div>
+      {readOnly ? (
+        !isRevealed && <p className="text-center text-gray-300">Players are entering their guesses...</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex gap-3">
+          <input
+            type="number"
+            inputMode="decimal"
+            step="any"
+            min={question.min}
+            max={question.max}
+            value={myGuess !== null ? String(myGuess) : guess}
+            onChange={(e) => setGuess(e.target.value)}
+            disabled={isSubmitted}
+            placeholder="Your best guess"
+            className="flex-1 px-4 py-3 rounded-xl bg-white/10 border border-white/20 text-white text-lg focus:outline-none focus:ring-2 focus:ring-purple-500/50 disabled:opacity-70"
+          />
+          {question.unit && (
+            <span className="self-center text-white text-lg">{question.unit}</span>
+          )}
+          <motion.button
+            type="submit"
+            whileHover={canSubmit ? { scale: 1.02 } : {}}
+            whileTap={canSubmit ? { scale: 0.98 } : {}}
+            disabled={!canSubmit}
+            className="px-6 py-3 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold disabled:opacity-50"
+          >
+            {isSubmitted ? 'Locked in' : 'Submit'}
+          </motion.button>
+        </form>
+      )}
+
+      {isRevealed && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mt-4 p-4 rounded-xl bg-green-500/20 border border-green-500 text-white"
+        >
+          <p className="text-lg font-semibold">Answer: {question.correctAnswer}{unit}</p>
+          {myGuess !== null && (
+            <p className="text-sm text-gray-200">
+              You guessed {myGuess}{unit}
+              {myGuess === question.correctAnswer
+                ? ' — spot on!'
+                : ` — off by ${Math.abs(myGuess - question.correctAnswer!)}${unit}`}
+            </p>
+          )}
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default NumericAnswer;
@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Question, AnswerValue, RoomAnswerSummary } from '../types';
+
+interface OrderingAnswerProps {
+  question: Question;
+  submittedAnswer: AnswerValue | null;
+  onSubmit: (answer: number[]) => void;
+  distribution?: RoomAnswerSummary | null;
+  readOnly?: boolean;
+}
+
+const OrderingAnswer: React.FC<OrderingAnswerProps> = ({ question, submittedAnswer, onSubmit, distribution, readOnly = false }) => {
+  // Option indexes in the order the player has arranged them
+  const [order, setOrder] = useState<number[]>(() => question.options.map((_, index) => index));
+
+  // Spectators see the question locked, as if already answered
+  const isSubmitted = readOnly || submittedAnswer !== null;
+  const isRevealed = !!question.revealed && !!question.correctOrder;
+  const arranged = Array.isArray(submittedAnswer) ? submittedAnswer : order;
+
+  // Swap the item at position with its neighbour in the given direction
+  const moveItem = (position: number, direction: -1 | 1) => {
+    const target = position + direction;
+    if (isSubmitted || target < 0 || target >= order.length) return;
+    setOrder(prev => {
+      const next = [...prev];
+      [next[position], next[target]] = [next[target], next[position]];
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <p className="mb-3 text-sm text-gray-300">Arrange the items into the right order, then submit.</p>
+      <ol className="space-y-3">
+        {arranged.map((optionIndex, position) => {
+          const isInPlace = isRevealed && question.correctOrder![position] === optionIndex;
+
+          return (
+            <motion.li
+              key={optionIndex}
+              layout
+              className={`flex items-center p-4 rounded-xl backdrop-blur-sm border text-white
+                ${isRevealed
+                  ? isInPlace ? 'bg-green-500/30 border-green-500' : 'bg-red-500/30 border-red-500'
+                  : 'bg-white/10 border-white/20'}`}
+            >
+              <span className="w-8 h-8 flex items-center justify-center rounded-full bg-white/20 font-medium mr-4">
+                {position + 1}
+              </span>
+              <span className="font-medium text-lg flex-1">{question.options[optionIndex]}</span>
+              {!isSubmitted && (
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => moveItem(position, -1)}
+                    disabled={position === 0}
+                    aria-label="Move up"
+                    className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => moveItem(position, 1)}
+                    disabled={position === arranged.length - 1}
+                    aria-label="Move down"
+                    className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30"
+                  >
+                    ▼
+                  </button>
+                </div>
+              )}
+            </motion.li>
+          );
+        })}
+      </ol>
+
+      {!isSubmitted && (
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={() => onSubmit(order)}
+          className="mt-4 w-full py-3 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold"
+        >
+          Submit order
+        </motion.button>
+      )}
+
+      {isRevealed && (
+        <div className="mt-4 p-4 rounded-xl bg-white/5 border border-white/10 text-sm text-gray-200">
+          <p className="font-semibold text-white mb-1">Correct order</p>
+          <ol className="list-decimal list-inside">
+            {question.correctOrder!.map(optionIndex => (
+              <li key={optionIndex}>
+                {question.options[optionIndex]}
+                {distribution && (
+                  <span className="ml-2 text-xs text-gray-400">
+                    {distribution.counts[optionIndex] || 0} of {distribution.answered} placed it here
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderingAnswer;
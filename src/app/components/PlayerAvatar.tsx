@@ -0,0 +1,31 @@
+'use client';
+
+import React from 'react';
+
+interface PlayerAvatarProps {
+  name: string;
+  avatar?: string | null;
+  color?: string | null;
+  size?: 'sm' | 'md' | 'lg';
+}
+
+const SIZE_CLASSES = {
+  sm: 'w-6 h-6 text-sm',
+  md: 'w-8 h-8 text-base',
+  lg: 'w-14 h-14 text-3xl'
+};
+
+// A player's avatar emoji on their profile colour, falling back to their initial
+const PlayerAvatar: React.FC<PlayerAvatarProps> = ({ name, avatar, color, size = 'md' }) => {
+  return (
+    <span
+      className={`inline-flex shrink-0 items-center justify-center rounded-full font-semibold text-white ${color ? '' : 'bg-white/20'} ${SIZE_CLASSES[size]}`}
+      style={color ? { backgroundColor: color } : undefined}
+      aria-hidden="true"
+    >
+      {avatar || name.trim().charAt(0).toUpperCase() || '?'}
+    </span>
+  );
+};
+
+export default PlayerAvatar;
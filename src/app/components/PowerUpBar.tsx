@@ -0,0 +1,82 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useGame } from '../context/GameContext';
+import { PowerUp, PowerUpRejectionReason, QuestionType } from '../types';
+
+const POWER_UPS: Array<{ id: PowerUp; icon: string; label: string; hint: string }> = [
+  { id: 'fiftyFifty', icon: '✂️', label: '50/50', hint: 'Hide two wrong answers' },
+  { id: 'doublePoints', icon: '✖️2', label: 'Double', hint: 'Double the points for your next answer' },
+  { id: 'timeFreeze', icon: '❄️', label: 'Freeze', hint: 'Get extra time on this question' },
+  { id: 'pollRoom', icon: '📊', label: 'Poll', hint: 'See what the room has picked so far' }
+];
+
+// Question types each power-up can help with; the server has the final say
+const SUPPORTED_TYPES: Partial<Record<PowerUp, QuestionType[]>> = {
+  pollRoom: ['single', 'true-false', 'multi-select']
+};
+
+const REJECTION_MESSAGES: Record<PowerUpRejectionReason, string> = {
+  UNKNOWN_POWER_UP: 'That power-up does not exist.',
+  ALREADY_USED: 'You have already used that power-up this game.',
+  NOT_PLAYING: 'Power-ups can only be used during a game.',
+  QUESTION_CLOSED: 'This question has already closed.',
+  ALREADY_ANSWERED: 'Power-ups must be used before you answer.',
+  NOT_AVAILABLE: 'That power-up cannot be used on this question.',
+  ELIMINATED: 'You are out of this game.'
+};
+
+interface PowerUpBarProps {
+  hasAnswered: boolean;
+}
+
+// The player's once-per-game power-ups for the current question
+const PowerUpBar: React.FC<PowerUpBarProps> = ({ hasAnswered }) => {
+  const { gameState, player, activatePowerUp } = useGame();
+  const question = gameState.currentQuestion;
+
+  if (!player || !question) return null;
+
+  const usedPowerUps = player.usedPowerUps || [];
+  const questionType = question.type || 'single';
+  const rejection = gameState.powerUpRejection;
+
+  return (
+    <div className="mt-4">
+      <div className="flex justify-center gap-2">
+        {POWER_UPS.map(({ id, icon, label, hint }) => {
+          const isUsed = usedPowerUps.includes(id);
+          // A 50/50 needs more than two wrong options to hide two of them; only the server can count them
+          const isSupported = (!SUPPORTED_TYPES[id] || SUPPORTED_TYPES[id]!.includes(questionType)) &&
+            (id !== 'fiftyFifty' || !!question.fiftyFiftyAvailable);
+          const isDisabled = isUsed || !isSupported || hasAnswered || !!gameState.isPaused;
+          return (
+            <motion.button
+              key={id}
+              whileHover={!isDisabled ? { scale: 1.05 } : {}}
+              whileTap={!isDisabled ? { scale: 0.95 } : {}}
+              onClick={() => activatePowerUp(id)}
+              disabled={isDisabled}
+              title={isUsed ? `${label} already used` : hint}
+              className={`flex flex-col items-center px-3 py-2 rounded-lg text-xs font-medium border transition
+                ${isUsed ? 'bg-white/5 border-white/10 text-gray-500 line-through' : 'bg-white/10 border-white/20 text-white hover:bg-white/20'}
+                disabled:cursor-not-allowed ${!isUsed && isDisabled ? 'opacity-50' : ''}`}
+            >
+              <span className="text-lg leading-none">{icon}</span>
+              {label}
+            </motion.button>
+          );
+        })}
+      </div>
+      {player.doublePointsArmed && (
+        <p className="mt-2 text-center text-sm text-yellow-300">✖️2 Your next answer scores double points</p>
+      )}
+      {rejection && (
+        <p className="mt-2 text-center text-sm text-red-300">{REJECTION_MESSAGES[rejection.reason]}</p>
+      )}
+    </div>
+  );
+};
+
+export default PowerUpBar;
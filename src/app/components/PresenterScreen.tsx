@@ -0,0 +1,183 @@
+'use client';
+
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useGame } from '../context/GameContext';
+import Timer from './Timer';
+import QuestionMedia from './QuestionMedia';
+import DistributionBar from './DistributionBar';
+import PlayerAvatar from './PlayerAvatar';
+import { Question } from '../types';
+
+// Whether an option is (one of) the right answer(s) once the question is revealed
+const isCorrectOption = (question: Question, index: number) => {
+  if (question.type === 'multi-select') return !!question.correctOptions?.includes(index);
+  return question.correctOption === index;
+};
+
+// Big-screen display for a session, driven by a presenter connection
+const PresenterScreen: React.FC = () => {
+  const { gameState, clockOffset, disconnect } = useGame();
+
+  const { currentQuestion, players } = gameState;
+  const isRevealed = !!currentQuestion?.revealed;
+  const distribution = isRevealed ? gameState.answerDistribution : null;
+  const rankedPlayers = [...players].sort((a, b) => b.score - a.score);
+
+  // Count down to the server's deadline on this client's clock; it holds while paused
+  const deadline = gameState.isPaused || !gameState.questionEndTime ? null : gameState.questionEndTime + clockOffset;
+
+  const leaderboard = (
+    <ol className="space-y-3">
+      {rankedPlayers.map((p, index) => (
+        <motion.li
+          key={p.id}
+          layout
+          transition={{ type: 'spring', stiffness: 200, damping: 25 }}
+          className="flex items-center justify-between px-6 py-4 rounded-xl bg-white/10 border border-white/20 text-3xl text-white"
+        >
+          <span className="flex items-center gap-4">
+            <span className="inline-block w-12 font-bold text-purple-300">{index + 1}</span>
+            <PlayerAvatar name={p.name} avatar={p.avatar} color={p.color} size="lg" />
+            {p.name}
+            {p.isAway && <span className="ml-2 text-lg text-gray-400">(away)</span>}
+          </span>
+          <motion.span key={p.score} initial={{ scale: 1.3 }} animate={{ scale: 1 }} className="font-bold">
+            {p.score}
+          </motion.span>
+        </motion.li>
+      ))}
+    </ol>
+  );
+
+  let content: React.ReactNode = null;
+
+  if (gameState.gameState === 'lobby') {
+    content = (
+      <div className="text-center text-white">
+        <p className="text-3xl text-gray-300 mb-4">Join on your phone with code</p>
+        <p className="text-9xl font-mono font-bold tracking-widest mb-12">{gameState.roomCode || '—'}</p>
+        <div className="flex flex-wrap justify-center gap-4">
+          <AnimatePresence>
+            {players.map(p => (
+              <motion.span
+                key={p.id}
+                initial={{ opacity: 0, scale: 0.5 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.5 }}
+                className="flex items-center gap-3 px-6 py-3 rounded-full bg-white/10 border border-white/20 text-3xl"
+              >
+                <PlayerAvatar name={p.name} avatar={p.avatar} color={p.color} size="lg" />
+                {p.name}{p.isReady && ' ✓'}
+              </motion.span>
+            ))}
+          </AnimatePresence>
+        </div>
+        <p className="mt-12 text-2xl text-gray-400">{players.length} player{players.length === 1 ? '' : 's'} in the room</p>
+      </div>
+    );
+  } else if (gameState.gameState === 'playing' && currentQuestion) {
+    content = (
+      <div className="grid grid-cols-3 gap-12 w-full">
+        <div className="col-span-2">
+          <div className="flex justify-between items-center mb-6 text-2xl text-gray-300">
+            <span>Question {gameState.questionNumber} of {gameState.totalQuestions}</span>
+            {gameState.isPaused && <span className="text-yellow-300 font-semibold">⏸ Paused</span>}
+          </div>
+          <h1 className="text-5xl font-bold text-white mb-8 leading-tight">{currentQuestion.question}</h1>
+          {currentQuestion.media && <QuestionMedia key={currentQuestion.id} media={currentQuestion.media} />}
+
+          {currentQuestion.options.length > 0 && currentQuestion.type !== 'ordering' && (
+            <div className="grid grid-cols-2 gap-6">
+              {currentQuestion.options.map((option, index) => {
+                const isCorrect = isRevealed && isCorrectOption(currentQuestion, index);
+                return (
+                  <div
+                    key={index}
+                    className={`relative overflow-hidden flex items-center p-6 rounded-2xl border-2 text-3xl text-white transition-colors duration-500
+                      ${isRevealed
+                        ? isCorrect ? 'bg-green-500/30 border-green-500' : 'bg-white/5 border-white/10 opacity-70'
+                        : 'bg-white/10 border-white/20'}`}
+                  >
+                    {distribution && (
+                      <DistributionBar count={distribution.counts[index] || 0} total={distribution.answered} delay={index * 0.1} />
+                    )}
+                    <span className="relative w-14 h-14 mr-6 flex items-center justify-center rounded-full bg-white/20 font-bold">
+                      {String.fromCharCode(65 + index)}
+                    </span>
+                    <span className="relative">{option}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {currentQuestion.type === 'ordering' && (
+            <ol className="space-y-4 text-3xl text-white">
+              {(isRevealed && currentQuestion.correctOrder ? currentQuestion.correctOrder : currentQuestion.options.map((_, i) => i))
+                .map((optionIndex, position) => (
+                  <li key={optionIndex} className={`p-5 rounded-2xl border-2 ${isRevealed ? 'bg-green-500/20 border-green-500' : 'bg-white/10 border-white/20'}`}>
+                    {isRevealed ? `${position + 1}. ` : ''}{currentQuestion.options[optionIndex]}
+                  </li>
+                ))}
+            </ol>
+          )}
+
+          {currentQuestion.type === 'numeric' && isRevealed && (
+            <p className="text-6xl font-bold text-green-300">
+              {currentQuestion.correctAnswer}{currentQuestion.unit ? ` ${currentQuestion.unit}` : ''}
+            </p>
+          )}
+
+          {isRevealed && currentQuestion.explanation && (
+            <p className="mt-8 text-2xl text-gray-200">💡 {currentQuestion.explanation}</p>
+          )}
+        </div>
+
+        <div className="flex flex-col items-center">
+          {isRevealed ? (
+            <div className="w-full">
+              {gameState.fastestCorrect && (
+                <p className="mb-6 text-center text-2xl text-yellow-300">
+                  ⚡ {gameState.fastestCorrect.name} in {(gameState.fastestCorrect.responseTimeMs / 1000).toFixed(1)}s
+                </p>
+              )}
+              {leaderboard}
+            </div>
+          ) : (
+            <>
+              <div className="scale-[2] origin-top mb-24">
+                <Timer deadline={deadline} time={gameState.timeRemaining} timeLimit={gameState.timeLimit} />
+              </div>
+              <p className="text-7xl font-bold text-white">{gameState.answeredCount || 0}/{players.length}</p>
+              <p className="text-2xl text-gray-300">answered</p>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  } else if (gameState.gameState === 'playing') {
+    content = <p className="text-5xl text-white text-center">Get ready...</p>;
+  } else if (gameState.gameState === 'results') {
+    content = (
+      <div className="w-full max-w-3xl">
+        <h1 className="text-7xl font-bold text-center text-white mb-12">Final Results</h1>
+        {leaderboard}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative z-10 flex flex-col items-center justify-center min-h-screen p-12">
+      {content}
+      <button
+        onClick={disconnect}
+        className="fixed bottom-4 right-4 px-3 py-1.5 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/10"
+      >
+        Stop presenting
+      </button>
+    </div>
+  );
+};
+
+export default PresenterScreen;
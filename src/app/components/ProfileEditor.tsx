@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { useGame } from '../context/GameContext';
+import PlayerAvatar from './PlayerAvatar';
+
+const AVATARS = ['🦊', '🐼', '🐸', '🦉', '🐙', '🦄', '🐝', '🐢'];
+const COLORS = ['#8b5cf6', '#ec4899', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6'];
+
+// Lets a player pick the avatar and colour shown next to their nickname
+const ProfileEditor: React.FC<{ nickname: string }> = ({ nickname }) => {
+  const { profile, updateProfile } = useGame();
+
+  return (
+    <div className="flex items-center gap-4 p-3 rounded-xl bg-white/5 border border-white/10">
+      <PlayerAvatar name={nickname || '?'} avatar={profile?.avatar} color={profile?.color} size="lg" />
+      <div className="flex-1 space-y-2">
+        <div className="flex flex-wrap gap-1">
+          {AVATARS.map(avatar => (
+            <button
+              key={avatar}
+              onClick={() => updateProfile({ avatar: profile?.avatar === avatar ? null : avatar })}
+              aria-label={`Use ${avatar} as your avatar`}
+              className={`w-8 h-8 rounded-lg text-lg transition ${profile?.avatar === avatar ? 'bg-white/30 ring-2 ring-white/60' : 'hover:bg-white/10'}`}
+            >
+              {avatar}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => updateProfile({ color: profile?.color === color ? null : color })}
+              aria-label={`Use colour ${color}`}
+              className={`w-6 h-6 rounded-full transition ${profile?.color === color ? 'ring-2 ring-white ring-offset-2 ring-offset-indigo-900' : ''}`}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileEditor;
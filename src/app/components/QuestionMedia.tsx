@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { resolveServerUrl } from '../context/GameContext';
+import { QuestionMedia as QuestionMediaType } from '../types';
+
+interface QuestionMediaProps {
+  media: QuestionMediaType;
+}
+
+const QuestionMedia: React.FC<QuestionMediaProps> = ({ media }) => {
+  const url = resolveServerUrl(media.url);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="mb-6 flex justify-center"
+    >
+      {media.type === 'image' && (
+        // eslint-disable-next-line @next/next/no-img-element -- served by the game server, not the Next.js app
+        <img
+          src={url}
+          alt={media.alt}
+          className="max-h-64 max-w-full rounded-lg shadow-lg border border-white/20 object-contain"
+        />
+      )}
+      {media.type === 'audio' && (
+        <audio src={url} controls autoPlay className="w-full" aria-label={media.alt} />
+      )}
+      {media.type === 'video' && (
+        <video
+          src={url}
+          controls
+          autoPlay
+          playsInline
+          aria-label={media.alt}
+          className="max-h-64 max-w-full rounded-lg shadow-lg"
+        />
+      )}
+    </motion.div>
+  );
+};
+
+export default QuestionMedia;
@@ -4,52 +4,77 @@ import React, { useEffect, useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { useGame } from '../context/GameContext';
 import Timer from './Timer';
+import HostControls from './HostControls';
+import MultiSelectAnswer from './MultiSelectAnswer';
+import NumericAnswer from './NumericAnswer';
+import OrderingAnswer from './OrderingAnswer';
+import QuestionMedia from './QuestionMedia';
+import DistributionBar from './DistributionBar';
+import PlayerAvatar from './PlayerAvatar';
+import PowerUpBar from './PowerUpBar';
+import { ScoreBreakdown, AnswerRejectionReason, AnswerValue } from '../types';
+
+// What to tell the player when the server refuses their answer
+const REJECTION_MESSAGES: Record<AnswerRejectionReason, string> = {
+  NOT_PLAYING: 'The game is not running, so your answer was not counted.',
+  QUESTION_CLOSED: 'This question has already closed.',
+  DUPLICATE_ANSWER: 'You have already answered this question.',
+  INVALID_ANSWER: 'That answer is not valid for this question.',
+  TOO_LATE: 'Time was up before your answer reached the server.',
+  ELIMINATED: 'You are out of this game, so your answer was not counted.'
+};
+
+// Turn a points breakdown into a short label such as "+14 (speed bonus)"
+const describePoints = (points: ScoreBreakdown) => {
+  if (points.total <= 0) {
+    return points.penalty > 0 ? `-${points.penalty} (wrong answer)` : '+0';
+  }
+  const bonuses = [];
+  if (points.credit < 1) bonuses.push(`${Math.round(points.credit * 100)}% credit`);
+  if (points.speedBonus > 0) bonuses.push('speed bonus');
+  if (points.streakBonus > 0) bonuses.push(`${points.streak} streak ×${points.multiplier}`);
+  if (points.boostBonus > 0) bonuses.push('double points');
+  return `+${points.total}${bonuses.length > 0 ? ` (${bonuses.join(', ')})` : ''}`;
+};
 
 
 const QuizScreen: React.FC = () => {
-  const { gameState, player, submitAnswer, disconnect } = useGame();
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
-  const [timeRemaining, setTimeRemaining] = useState<number>(0);
+  const { gameState, player, isSpectator, clockOffset, submitAnswer, disconnect } = useGame();
+  const [selectedAnswer, setSelectedAnswer] = useState<AnswerValue | null>(null);
   const [showLeaderboard, setShowLeaderboard] = useState<boolean>(true);
 
   const currentQuestion = gameState.currentQuestion;
   const questionNumber = gameState.questionNumber;
   const totalQuestions = gameState.totalQuestions;
-  const timeLimit = gameState.timeLimit;
+  // Power-up effects only apply to the question they were used on
+  const powerUpEffects = gameState.powerUpEffects?.questionIndex === questionNumber - 1 ? gameState.powerUpEffects : null;
+  const extraSeconds = powerUpEffects?.extraSeconds || 0;
+  const timeLimit = gameState.timeLimit + extraSeconds;
 
   // Reset selected answer when question changes
   useEffect(() => {
     setSelectedAnswer(null);
-    setTimeRemaining(timeLimit);
-  }, [questionNumber, timeLimit]);
+  }, [questionNumber]);
 
-  // Countdown timer effect that syncs with server time
-  useEffect(() => {
-    if (!currentQuestion || currentQuestion.correctOption !== undefined) return;
-    
-    // Initial sync with server time
-    setTimeRemaining(gameState.timeRemaining);
-    
-    const interval = setInterval(() => {
-      setTimeRemaining(prev => {
-        // Never go below 0
-        if (prev <= 0) return 0;
-        return prev - 1;
-      });
-    }, 1000);
-    
-    return () => clearInterval(interval);
-  }, [currentQuestion, gameState.timeRemaining]);
-
-  const handleAnswerSelect = (answerIndex: number) => {
-    if (selectedAnswer === null) {
-      setSelectedAnswer(answerIndex);
-      submitAnswer(answerIndex);
+  // Count down to the server's deadline, moved onto this client's clock with the measured offset.
+  // While the host has the game paused the clock holds, plus any time this player froze.
+  const deadline = gameState.isPaused || !gameState.questionEndTime
+    ? null
+    : gameState.questionEndTime + clockOffset + extraSeconds * 1000;
+
+  // Players knocked out of a survival game keep watching, like spectators
+  const isEliminated = typeof player?.eliminatedOnQuestion === 'number';
+  const isWatching = isSpectator || isEliminated;
+
+  const handleAnswerSelect = (answer: AnswerValue) => {
+    if (!isWatching && selectedAnswer === null) {
+      setSelectedAnswer(answer);
+      submitAnswer(answer);
     }
   };
 
   const handleQuit = () => {
-    if (confirm("Are you sure you want to quit the quiz? You'll be removed from the session.")) {
+    if (isSpectator || confirm("Are you sure you want to quit the quiz? You'll be removed from the session.")) {
       disconnect();
     }
   };
@@ -68,7 +93,19 @@ const QuizScreen: React.FC = () => {
     );
   }
 
-  const isAnswerRevealed = currentQuestion.correctOption !== undefined;
+  const isAnswerRevealed = !!currentQuestion.revealed;
+  const distribution = isAnswerRevealed ? gameState.answerDistribution : null;
+  const fastestCorrect = isAnswerRevealed ? gameState.fastestCorrect : null;
+  // Before the reveal, the poll power-up shows what the room has picked so far
+  const poll = isAnswerRevealed ? null : powerUpEffects?.poll || null;
+  const hiddenOptions = isAnswerRevealed ? [] : powerUpEffects?.hiddenOptions || [];
+  const canAnswer = !isWatching && selectedAnswer === null;
+  const isSurvival = !!gameState.settings?.survivalMode;
+  const survivorCount = gameState.players.filter(p => typeof p.eliminatedOnQuestion !== 'number').length;
+  const eliminated = isAnswerRevealed ? gameState.eliminated || [] : [];
+  // With a presenter screen in the room, player devices become a compact answer pad
+  const isCompact = !!gameState.hasPresenter && !isSpectator;
+  const myAnswer = player?.answers.find(a => a.questionIndex === questionNumber - 1);
 
   return (
     <>
@@ -87,7 +124,7 @@ const QuizScreen: React.FC = () => {
         whileHover={{ scale: 1.05 }}
         whileTap={{ scale: 0.95 }}
       >
-        Quit
+        {isSpectator ? 'Leave' : 'Quit'}
       </motion.button>
       
       <motion.div 
@@ -100,12 +137,15 @@ const QuizScreen: React.FC = () => {
         <div className="mb-8">
           <div className="flex justify-between items-center mb-4">
             <span className="text-xl text-white font-medium">
-              Question {questionNumber} of {totalQuestions}
+              {isSurvival
+                ? `Question ${questionNumber} · ${survivorCount} of ${gameState.players.length} still in`
+                : `Question ${questionNumber} of ${totalQuestions}`}
             </span>
             {!isAnswerRevealed && (
               <div className="flex items-center">
+                {extraSeconds > 0 && <span className="text-sky-300 text-sm mr-2">❄️ +{extraSeconds}s</span>}
                 <span className="text-white mr-2">Time:</span>
-                <Timer time={timeRemaining} timeLimit={timeLimit} />
+                <Timer deadline={deadline} time={gameState.timeRemaining + extraSeconds} timeLimit={timeLimit} />
               </div>
             )}
           </div>
@@ -126,53 +166,155 @@ const QuizScreen: React.FC = () => {
           transition={{ delay: 0.1 }}
           className="mb-8"
         >
-          <h2 className="text-2xl font-bold text-white mb-2">
+          {(currentQuestion.category || currentQuestion.difficulty) && (
+            <div className="flex gap-2 mb-2 text-xs uppercase tracking-wide">
+              {currentQuestion.category && (
+                <span className="px-2 py-0.5 rounded-full bg-white/10 text-gray-200">{currentQuestion.category}</span>
+              )}
+              {currentQuestion.difficulty && (
+                <span className="px-2 py-0.5 rounded-full bg-white/10 text-gray-200">{currentQuestion.difficulty}</span>
+              )}
+            </div>
+          )}
+          <h2 className={`${isCompact ? 'text-base font-medium text-gray-200' : 'text-2xl font-bold text-white'} mb-2`}>
             {currentQuestion.question}
           </h2>
+          {isCompact && (
+            <p className="text-sm text-gray-400">👀 Look at the big screen</p>
+          )}
+          {gameState.isPaused && (
+            <p className="text-yellow-300 font-semibold">⏸ Paused by the host</p>
+          )}
+          {isEliminated && (
+            <p className="text-red-300 font-semibold">💀 You&apos;re out! Watching until the last player is standing.</p>
+          )}
         </motion.div>
 
+        {currentQuestion.media && !isCompact && (
+          <QuestionMedia key={currentQuestion.id} media={currentQuestion.media} />
+        )}
+
         {/* Answers */}
-        <div className="grid grid-cols-1 gap-4">
-          {currentQuestion.options.map((option, index) => {
-            const isCorrect = isAnswerRevealed && index === currentQuestion.correctOption;
-            const isWrong = isAnswerRevealed && selectedAnswer === index && index !== currentQuestion.correctOption;
+        {currentQuestion.type === 'multi-select' ? (
+          <MultiSelectAnswer key={currentQuestion.id} question={currentQuestion} submittedAnswer={selectedAnswer} onSubmit={handleAnswerSelect} distribution={distribution || poll} hiddenOptions={hiddenOptions} readOnly={isWatching} />
+        ) : currentQuestion.type === 'numeric' ? (
+          <NumericAnswer key={currentQuestion.id} question={currentQuestion} submittedAnswer={selectedAnswer} onSubmit={handleAnswerSelect} readOnly={isWatching} />
+        ) : currentQuestion.type === 'ordering' ? (
+          <OrderingAnswer key={currentQuestion.id} question={currentQuestion} submittedAnswer={selectedAnswer} onSubmit={handleAnswerSelect} distribution={distribution} readOnly={isWatching} />
+        ) : (
+          <div className={`grid ${isCompact ? 'grid-cols-2' : 'grid-cols-1'} gap-4`}>
+            {currentQuestion.options.map((option, index) => {
+              const isCorrect = isAnswerRevealed && index === currentQuestion.correctOption;
+              const isWrong = isAnswerRevealed && selectedAnswer === index && index !== currentQuestion.correctOption;
+              const isHidden = hiddenOptions.includes(index);
+              const bars = distribution || poll;
             
-            return (
-              <motion.button
-                key={index}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.2 + index * 0.1 }}
-                whileHover={selectedAnswer === null ? { scale: 1.02 } : {}}
-                whileTap={selectedAnswer === null ? { scale: 0.98 } : {}}
-                onClick={() => handleAnswerSelect(index)}
-                disabled={selectedAnswer !== null}
-                className={`p-5 rounded-xl text-left transition-all duration-300 backdrop-blur-sm border
-                  ${selectedAnswer === null
-                    ? 'bg-white/10 border-white/20 text-white hover:bg-white/20'
-                    : selectedAnswer === index
-                      ? isWrong 
-                        ? 'bg-red-500/30 border-red-500 text-white'
-                        : 'bg-green-500/30 border-green-500 text-white'
-                      : isCorrect
-                        ? 'bg-green-500/30 border-green-500 text-white'
-                        : 'bg-white/5 border-white/10 text-gray-300'
-                  }`}
-              >
-                <div className="flex items-center">
-                  <span className={`w-8 h-8 flex items-center justify-center rounded-full 
-                    ${isCorrect ? 'bg-green-500' : isWrong ? 'bg-red-500' : 'bg-white/20'} 
-                    text-white font-medium mr-4`}>
-                    {String.fromCharCode(65 + index)}
-                  </span>
-                  <span className="font-medium text-lg">{option}</span>
-                </div>
-              </motion.button>
-            );
-          })}
-        </div>
+              return (
+                <motion.button
+                  key={index}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.2 + index * 0.1 }}
+                  whileHover={canAnswer ? { scale: 1.02 } : {}}
+                  whileTap={canAnswer ? { scale: 0.98 } : {}}
+                  onClick={() => handleAnswerSelect(index)}
+                  disabled={!canAnswer || isHidden}
+                  className={`relative overflow-hidden ${isCompact ? 'p-6 min-h-28' : 'p-5'} rounded-xl text-left transition-all duration-300 backdrop-blur-sm border
+                    ${isHidden
+                      ? 'bg-white/5 border-white/5 text-gray-500 line-through opacity-40'
+                      : canAnswer
+                        ? 'bg-white/10 border-white/20 text-white hover:bg-white/20'
+                        : selectedAnswer === index
+                          ? isWrong 
+                            ? 'bg-red-500/30 border-red-500 text-white'
+                            : 'bg-green-500/30 border-green-500 text-white'
+                          : isCorrect
+                            ? 'bg-green-500/30 border-green-500 text-white'
+                            : 'bg-white/5 border-white/10 text-gray-300'
+                    }`}
+                >
+                  {bars && (
+                    <DistributionBar count={bars.counts[index] || 0} total={bars.answered} delay={index * 0.1} />
+                  )}
+                  <div className={`relative flex items-center ${isCompact ? 'flex-col gap-2 text-center' : ''}`}>
+                    <span className={`${isCompact ? 'w-12 h-12 text-2xl' : 'w-8 h-8 mr-4'} flex items-center justify-center rounded-full 
+                      ${isCorrect ? 'bg-green-500' : isWrong ? 'bg-red-500' : 'bg-white/20'} 
+                      text-white font-medium`}>
+                      {String.fromCharCode(65 + index)}
+                    </span>
+                    <span className={`font-medium ${isCompact ? 'text-sm' : 'text-lg'}`}>{option}</span>
+                  </div>
+                </motion.button>
+              );
+            })}
+          </div>
+        )}
+
+        {poll && (
+          <p className="mt-2 text-center text-sm text-gray-300">
+            📊 {poll.answered} of {poll.players} have answered so far
+          </p>
+        )}
+
+        {!isWatching && !isAnswerRevealed && (
+          <PowerUpBar hasAnswered={selectedAnswer !== null || !!myAnswer} />
+        )}
 
-        {/* Collapsible Leaderboard (top 3 players) */}
+        {gameState.answerRejection && gameState.answerRejection.questionIndex === questionNumber - 1 && (
+          <p className="mt-4 text-center text-sm text-red-300">
+            {REJECTION_MESSAGES[gameState.answerRejection.reason]}
+          </p>
+        )}
+
+        {/* Points earned for this question */}
+        {isAnswerRevealed && myAnswer?.points && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.8 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className={`mt-4 text-center text-lg font-semibold ${myAnswer.points.total > 0 ? 'text-green-300' : 'text-red-300'}`}
+          >
+            {describePoints(myAnswer.points)}
+          </motion.div>
+        )}
+
+        {/* How the room did */}
+        {distribution && (
+          <motion.p
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.4 }}
+            className="mt-2 text-center text-sm text-gray-300"
+          >
+            {distribution.correct} of {distribution.players} got it right
+            {fastestCorrect && (
+              <> · ⚡ fastest: {fastestCorrect.playerId === player?.id ? 'you' : fastestCorrect.name} ({(fastestCorrect.responseTimeMs / 1000).toFixed(1)}s)</>
+            )}
+          </motion.p>
+        )}
+
+        {eliminated.length > 0 && (
+          <motion.p
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.5 }}
+            className="mt-2 text-center text-sm font-semibold text-red-300"
+          >
+            💀 Out: {eliminated.map(e => e.playerId === player?.id ? 'you' : e.name).join(', ')}
+          </motion.p>
+        )}
+
+        {isAnswerRevealed && currentQuestion.explanation && (
+          <motion.p
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="mt-4 p-4 rounded-lg bg-white/5 border border-white/10 text-gray-200"
+          >
+            💡 {currentQuestion.explanation}
+          </motion.p>
+        )}
+
+        {/* Collapsible Leaderboard (top 3 players, everyone for spectators) */}
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
@@ -188,14 +330,36 @@ const QuizScreen: React.FC = () => {
               {showLeaderboard ? '▾' : '▸'}
             </span>
           </div>
+          {showLeaderboard && gameState.teamStandings && (
+            <ul className="mt-2 mb-3 pb-3 space-y-1 text-white border-b border-white/10">
+              {gameState.teamStandings.map(team => (
+                <li key={team.id} className="flex justify-between">
+                  <span className="flex items-center gap-2">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: team.color }} />
+                    {team.rank}. {team.name}
+                    {team.id === player?.teamId && <span className="text-xs text-gray-400">(your team)</span>}
+                  </span>
+                  <span className="font-semibold text-purple-300">{team.score}</span>
+                </li>
+              ))}
+            </ul>
+          )}
           {showLeaderboard && (
             <ul className="mt-2 space-y-1 text-white">
               {[...gameState.players]
                 .sort((a, b) => b.score - a.score)
-                .slice(0, 3)
+                .slice(0, isWatching ? undefined : 3)
                 .map((p, idx) => (
                   <li key={p.id} className="flex justify-between">
-                    <span>{idx + 1}. {p.name}</span>
+                    <span className="flex items-center gap-2">
+                      {idx + 1}.
+                      <PlayerAvatar name={p.name} avatar={p.avatar} color={p.color} size="sm" />
+                      <span className={typeof p.eliminatedOnQuestion === 'number' ? 'line-through text-gray-400' : ''}>{p.name}</span>
+                      {p.isAway && <span className="ml-1 text-xs text-gray-400">(away)</span>}
+                      {isSurvival && (
+                        <span className="text-xs">{typeof p.eliminatedOnQuestion === 'number' ? '💀' : '❤️'.repeat(p.lives || 0)}</span>
+                      )}
+                    </span>
                     <span className="font-semibold text-purple-300">{p.score}</span>
                   </li>
                 ))}
@@ -210,11 +374,22 @@ const QuizScreen: React.FC = () => {
           transition={{ delay: 0.6 }}
           className="mt-8 text-center"
         >
-          <span className="text-xl font-semibold text-white/90">
-            Your Score: <span className="text-purple-300">{player?.score || 0}</span>
-          </span>
+          {isSpectator ? (
+            <span className="text-lg text-white/80">
+              👀 Spectating{gameState.spectatorCount ? ` · ${gameState.spectatorCount} watching` : ''}
+            </span>
+          ) : (
+            <span className="text-xl font-semibold text-white/90">
+              Your Score: <span className="text-purple-300">{player?.score || 0}</span>
+              {isSurvival && !isEliminated && (
+                <span className="ml-3" aria-label={`${player?.lives || 0} lives left`}>{'❤️'.repeat(player?.lives || 0)}</span>
+              )}
+            </span>
+          )}
         </motion.div>
 
+        <HostControls />
+
       </motion.div>
     </motion.div>
 
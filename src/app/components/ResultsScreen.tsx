@@ -4,20 +4,31 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { useGame } from '../context/GameContext';
 import Confetti from './Confetti';
+import GameReview from './GameReview';
+import { TeamStanding } from '../types';
+
+// Podium order: second place on the left, winner in the middle, third on the right
+const PODIUM_SLOTS = [
+  { index: 1, height: 'h-20', medal: '🥈' },
+  { index: 0, height: 'h-28', medal: '🥇' },
+  { index: 2, height: 'h-14', medal: '🥉' }
+];
 
 const ResultsScreen: React.FC = () => {
-  const { gameState, player, disconnect } = useGame();
+  const { gameState, player, isSpectator, disconnect } = useGame();
   const [showConfetti, setShowConfetti] = React.useState(false);
+  const [showReview, setShowReview] = React.useState(false);
 
   React.useEffect(() => {
     const playerResult = gameState.results.find(r => r.playerId === player?.id);
-    // Only show confetti for first place winner
-    if (gameState.results.length > 0 && playerResult && playerResult.rank === 1) {
+    const playerTeam = gameState.teamStandings?.find(t => t.id === playerResult?.teamId);
+    // Only show confetti for the first place winner, or everyone on the winning team
+    if (gameState.results.length > 0 && playerResult && (playerResult.rank === 1 || playerTeam?.rank === 1)) {
       setShowConfetti(true);
       const timer = setTimeout(() => setShowConfetti(false), 5000);
       return () => clearTimeout(timer);
     }
-  }, [gameState.results, player?.id]);
+  }, [gameState.results, gameState.teamStandings, player?.id]);
 
   const playerResult = gameState.results.find(r => r.playerId === player?.id);
   const rank = playerResult?.rank || 0;
@@ -27,6 +38,9 @@ const ResultsScreen: React.FC = () => {
     return foundPlayer?.name || 'Unknown Player';
   };
 
+  const teamStandings = gameState.teamStandings || [];
+  const myTeam: TeamStanding | undefined = teamStandings.find(t => t.id === player?.teamId);
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -59,30 +73,80 @@ const ResultsScreen: React.FC = () => {
             animate={{ opacity: 1 }}
             transition={{ delay: 0.2 }}
           >
-            Your final score: <span className="font-bold text-purple-300">{player?.score || 0}</span>
+            {isSpectator
+              ? 'Thanks for watching!'
+              : <>Your final score: <span className="font-bold text-purple-300">{player?.score || 0}</span></>}
           </motion.p>
         </div>
 
         {/* Medal Display */}
-        <motion.div
-          initial={{ scale: 0, rotate: -180 }}
-          animate={{ scale: 1, rotate: 0 }}
-          transition={{ type: 'spring', stiffness: 260, damping: 20, delay: 0.5 }}
-          className="flex justify-center mb-8"
-        >
-          {rank === 1 && (
-            <div className="text-8xl">🥇</div>
-          )}
-          {rank === 2 && (
-            <div className="text-8xl">🥈</div>
-          )}
-          {rank === 3 && (
-            <div className="text-8xl">🥉</div>
-          )}
-          {rank > 3 && (
-            <div className="text-6xl">🏅</div>
-          )}
-        </motion.div>
+        {!isSpectator && (
+          <motion.div
+            initial={{ scale: 0, rotate: -180 }}
+            animate={{ scale: 1, rotate: 0 }}
+            transition={{ type: 'spring', stiffness: 260, damping: 20, delay: 0.5 }}
+            className="flex justify-center mb-8"
+          >
+            {rank === 1 && (
+              <div className="text-8xl">🥇</div>
+            )}
+            {rank === 2 && (
+              <div className="text-8xl">🥈</div>
+            )}
+            {rank === 3 && (
+              <div className="text-8xl">🥉</div>
+            )}
+            {rank > 3 && (
+              <div className="text-6xl">🏅</div>
+            )}
+          </motion.div>
+        )}
+
+        {/* Team podium, with each team's MVP */}
+        {teamStandings.length > 0 && (
+          <motion.div
+            className="mb-8"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.6 }}
+          >
+            <h3 className="text-xl font-semibold text-white mb-1">Team Standings</h3>
+            {myTeam && !isSpectator && (
+              <p className="mb-4 text-sm text-gray-300">{myTeam.name} finished #{myTeam.rank}</p>
+            )}
+            <div className="flex items-end justify-center gap-3 mb-4">
+              {PODIUM_SLOTS.filter(slot => teamStandings[slot.index]).map((slot, i) => {
+                const team = teamStandings[slot.index];
+                return (
+                  <motion.div
+                    key={team.id}
+                    initial={{ opacity: 0, y: 30 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.7 + i * 0.15, type: 'spring', stiffness: 120 }}
+                    className="flex-1 text-center"
+                  >
+                    <div className="text-3xl">{slot.medal}</div>
+                    <p className="text-white font-semibold leading-tight">{team.name}</p>
+                    <p className="text-purple-300 font-bold">{team.score}</p>
+                    {team.mvpId && (
+                      <p className="text-xs text-gray-300 truncate">⭐ MVP: {getPlayerName(team.mvpId)}</p>
+                    )}
+                    <div
+                      className={`mt-2 rounded-t-lg ${slot.height} ${team.id === myTeam?.id ? 'ring-2 ring-white/70' : ''}`}
+                      style={{ backgroundColor: team.color }}
+                    />
+                  </motion.div>
+                );
+              })}
+            </div>
+            {teamStandings.slice(3).map(team => (
+              <p key={team.id} className="flex justify-between text-sm text-gray-200">
+                <span>{team.rank}. {team.name}</span>
+                <span>{team.score}</span>
+              </p>
+            ))}
+          </motion.div>
+        )}
 
         {/* Leaderboard */}
         <motion.div 
@@ -121,6 +185,13 @@ const ResultsScreen: React.FC = () => {
                     <span className="text-white ml-3 font-medium">
                       {getPlayerName(result.playerId)}
                       {result.playerId === player?.id && " (You)"}
+                      {gameState.settings?.survivalMode && (
+                        <span className="ml-2 text-xs text-gray-300">
+                          {typeof result.eliminatedOnQuestion === 'number'
+                            ? `💀 out on question ${result.eliminatedOnQuestion + 1}`
+                            : '❤️ survived'}
+                        </span>
+                      )}
                     </span>
                   </div>
                   <span className="font-bold text-purple-300">
@@ -131,6 +202,27 @@ const ResultsScreen: React.FC = () => {
           </div>
         </motion.div>
 
+        {/* Question-by-question review */}
+        {gameState.review && gameState.review.length > 0 && (
+          <motion.div
+            className="mb-8"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.9 }}
+          >
+            <div
+              className="flex justify-between items-center cursor-pointer mb-4"
+              onClick={() => setShowReview(!showReview)}
+            >
+              <h3 className="text-xl font-semibold text-white">Review Answers</h3>
+              <span className="text-white font-bold text-xl">
+                {showReview ? '▾' : '▸'}
+              </span>
+            </div>
+            {showReview && <GameReview />}
+          </motion.div>
+        )}
+
         <motion.button
           whileHover={{ scale: 1.02 }}
           whileTap={{ scale: 0.98 }}
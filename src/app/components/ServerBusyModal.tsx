@@ -4,14 +4,22 @@ import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useGame } from '../context/GameContext';
 
+// Rough, friendly wording for an estimated wait
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return 'less than a minute';
+  const minutes = Math.round(seconds / 60);
+  return `about ${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
 const ServerBusyModal: React.FC = () => {
-  const { gameState } = useGame();
+  const { gameState, spectateInstead, leaveQueue } = useGame();
   
   const isServerBusy = gameState.gameState === 'error' && gameState.errorMessage === 'SERVER_BUSY';
+  const queue = gameState.gameState === 'queued' ? gameState.queue : null;
   
   return (
     <AnimatePresence>
-      {isServerBusy && (
+      {(isServerBusy || queue) && (
         <>
           {/* Backdrop */}
           <motion.div
@@ -59,22 +67,71 @@ const ServerBusyModal: React.FC = () => {
                   </motion.div>
                 </div>
                 
-                <h2 className="text-2xl font-bold text-white text-center mb-3">Server Busy</h2>
-                
-                <p className="text-white/80 text-center mb-6">
-                  All quiz sessions are currently full. The maximum limit of 3 concurrent games has been reached. 
-                  Please try again in a few minutes when other players have completed their games.
-                </p>
+                {queue ? (
+                  <>
+                    <h2 className="text-2xl font-bold text-white text-center mb-3">You&apos;re in the Queue</h2>
+                    
+                    <p className="text-white/80 text-center mb-4">
+                      All quiz sessions are currently full. Stay on this page and you&apos;ll be moved
+                      into the next lobby automatically.
+                    </p>
+                    
+                    <div className="text-center mb-6">
+                      <motion.p
+                        key={queue.position}
+                        initial={{ scale: 1.3, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        className="text-5xl font-bold text-white"
+                      >
+                        #{queue.position}
+                      </motion.p>
+                      <p className="text-sm text-white/60">
+                        {queue.position === 1 ? 'You\'re next' : `${queue.position - 1} ahead of you`} · {queue.queueLength} waiting
+                      </p>
+                      <p className="mt-3 text-white/80">Estimated wait: {formatWait(queue.estimatedWaitSeconds)}</p>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <h2 className="text-2xl font-bold text-white text-center mb-3">Server Busy</h2>
+                    
+                    <p className="text-white/80 text-center mb-6">
+                      All quiz sessions are currently full and so is the waiting queue. 
+                      Please try again in a few minutes when other players have completed their games, or watch a game in progress.
+                    </p>
+                  </>
+                )}
                 
-                <div className="flex justify-center">
+                <div className="flex justify-center gap-3">
+                  {queue ? (
+                    <motion.button
+                      whileHover={{ scale: 1.03 }}
+                      whileTap={{ scale: 0.98 }}
+                      className="px-6 py-3 bg-gradient-to-r from-purple-500 to-indigo-600 
+                                text-white font-medium rounded-lg shadow-lg"
+                      onClick={leaveQueue}
+                    >
+                      Leave Queue
+                    </motion.button>
+                  ) : (
+                    <motion.button
+                      whileHover={{ scale: 1.03 }}
+                      whileTap={{ scale: 0.98 }}
+                      className="px-6 py-3 bg-gradient-to-r from-purple-500 to-indigo-600 
+                                text-white font-medium rounded-lg shadow-lg"
+                      onClick={() => window.location.reload()}
+                    >
+                      Try Again
+                    </motion.button>
+                  )}
                   <motion.button
                     whileHover={{ scale: 1.03 }}
                     whileTap={{ scale: 0.98 }}
-                    className="px-6 py-3 bg-gradient-to-r from-purple-500 to-indigo-600 
+                    className="px-6 py-3 bg-white/10 border border-white/20 
                               text-white font-medium rounded-lg shadow-lg"
-                    onClick={() => window.location.reload()}
+                    onClick={spectateInstead}
                   >
-                    Try Again
+                    Watch a Game
                   </motion.button>
                 </div>
               </div>
@@ -1,17 +1,57 @@
 'use client';
 
 import React from 'react';
+import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { useGame } from '../context/GameContext';
+import ProfileEditor from './ProfileEditor';
+import { GameMode } from '../types';
+
+// Friendly messages for errors that send the player back to the splash screen
+const ERROR_MESSAGES: Record<string, string> = {
+  INVALID_NAME: 'Enter a name to play.',
+  ROOM_NOT_FOUND: 'No room found with that code. Check it and try again.',
+  ROOM_FULL: 'That room is already full.',
+  ROOM_IN_PROGRESS: 'That room has already started its game.',
+  KICKED: 'You were removed from the game by the host.',
+  SESSION_EXPIRED: 'Your previous game could not be resumed.',
+  NO_GAMES_TO_WATCH: 'There are no public games in progress to watch right now.',
+  SPECTATORS_FULL: 'That game already has as many spectators as it can take.',
+  SESSION_CLOSED: 'The game you were watching has closed.'
+};
 
 const SplashScreen: React.FC = () => {
-  const { connect } = useGame();
+  const { connect, gameState, profile } = useGame();
   const [playerName, setPlayerName] = React.useState('');
-  const [modeSelection, setModeSelection] = React.useState<'normal' | 'conference'>('normal');
+  const [modeSelection, setModeSelection] = React.useState<GameMode>('normal');
+  const [roomCode, setRoomCode] = React.useState('');
+
+  // Start from the nickname this browser played under last time
+  React.useEffect(() => {
+    if (profile?.nickname) {
+      setPlayerName(prev => prev || profile.nickname);
+    }
+  }, [profile?.nickname]);
+
+  const joinError = gameState.gameState === 'error' && gameState.errorMessage
+    ? ERROR_MESSAGES[gameState.errorMessage] || gameState.errorMessage
+    : null;
 
   const handlePlay = () => {
     if (playerName.trim()) {
-      connect(playerName.trim(), modeSelection);
+      connect(playerName.trim(), modeSelection, roomCode.trim() ? { roomCode: roomCode.trim() } : {});
+    }
+  };
+
+  const handleSpectate = () => {
+    if (playerName.trim()) {
+      connect(playerName.trim(), modeSelection, { spectate: true, roomCode: roomCode.trim() || undefined });
+    }
+  };
+
+  const handleCreatePrivate = () => {
+    if (playerName.trim()) {
+      connect(playerName.trim(), modeSelection, { createPrivate: true });
     }
   };
 
@@ -65,7 +105,25 @@ const SplashScreen: React.FC = () => {
                      dark:focus:ring-blue-500/50 transition-all duration-300"
             whileFocus={{ scale: 1.02 }}
           />
+          <div className="mt-3">
+            <ProfileEditor nickname={playerName} />
+          </div>
+        </div>
+        <div className="mb-4">
+          <input
+            type="text"
+            value={roomCode}
+            onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+            placeholder="Room code (optional)"
+            maxLength={6}
+            className="w-full px-6 py-3 rounded-xl bg-white/10 backdrop-blur-sm border border-white/20 
+                     text-white placeholder-white/50 tracking-widest uppercase focus:outline-none focus:ring-2 
+                     focus:ring-purple-500/50 dark:focus:ring-blue-500/50 transition-all duration-300"
+          />
         </div>
+        {joinError && (
+          <p className="mb-4 text-center text-sm text-red-300">{joinError}</p>
+        )}
         <div className="flex justify-center mb-4 space-x-4">
           <button onClick={() => setModeSelection('normal')} className={`px-4 py-2 rounded ${modeSelection === 'normal' ? 'bg-indigo-500 text-white' : 'bg-white/10 text-gray-200'}`}>Normal Mode</button>
           <button onClick={() => setModeSelection('conference')} className={`px-4 py-2 rounded ${modeSelection === 'conference' ? 'bg-indigo-500 text-white' : 'bg-white/10 text-gray-200'}`}>Conference Mode</button>
@@ -80,8 +138,30 @@ const SplashScreen: React.FC = () => {
           whileHover={playerName.trim() ? { scale: 1.02 } : {}}
           whileTap={playerName.trim() ? { scale: 0.98 } : {}}
         >
-          Join Game
+          {roomCode.trim() ? 'Join Room' : 'Join Game'}
         </motion.button>
+        <button
+          onClick={handleCreatePrivate}
+          disabled={!playerName.trim()}
+          className={`w-full mt-3 py-3 rounded-xl font-medium transition-all duration-300 border border-white/20
+                    ${playerName.trim() ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-gray-500/30 text-gray-400 cursor-not-allowed'}`}
+        >
+          Create Private Room
+        </button>
+        <button
+          onClick={handleSpectate}
+          disabled={!playerName.trim()}
+          className={`w-full mt-3 py-2 rounded-xl text-sm transition-all duration-300
+                    ${playerName.trim() ? 'text-gray-200 hover:text-white hover:bg-white/10' : 'text-gray-500 cursor-not-allowed'}`}
+        >
+          {roomCode.trim() ? 'Watch This Room' : 'Watch a Game in Progress'}
+        </button>
+        <Link
+          href="/leaderboard"
+          className="block w-full mt-3 py-2 rounded-xl text-sm text-center text-gray-200 hover:text-white hover:bg-white/10 transition-all duration-300"
+        >
+          🏆 All-time Leaderboard
+        </Link>
       </motion.div>
     </motion.div>
   );
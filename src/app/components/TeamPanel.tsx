@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useGame } from '../context/GameContext';
+import PlayerAvatar from './PlayerAvatar';
+
+// Lobby view of who is on which team; the host can move players and reshuffle
+const TeamPanel: React.FC = () => {
+  const { gameState, player, assignTeam, shuffleTeams } = useGame();
+  const teams = gameState.teams || [];
+
+  if (teams.length === 0) return null;
+
+  const isHost = !!player?.isHost;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="mb-8 p-4 bg-white/5 backdrop-blur-sm dark:bg-gray-700/50 rounded-lg border border-white/10"
+    >
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-white">Teams</h3>
+        {isHost && (
+          <button
+            onClick={shuffleTeams}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium text-white bg-indigo-500/70 hover:bg-indigo-600/90"
+          >
+            🔀 Shuffle
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {teams.map(team => {
+          const members = gameState.players.filter(p => p.teamId === team.id);
+          return (
+            <div key={team.id} className="p-3 rounded-lg bg-white/5 border-l-4" style={{ borderColor: team.color }}>
+              <p className="mb-2 font-semibold text-white">
+                {team.name}
+                {team.id === player?.teamId && <span className="ml-1 text-xs text-gray-300">(your team)</span>}
+              </p>
+              <ul className="space-y-1">
+                {members.map(member => (
+                  <li key={member.id} className="flex items-center gap-2 text-sm text-gray-200">
+                    <PlayerAvatar name={member.name} avatar={member.avatar} color={member.color} size="sm" />
+                    <span className="flex-1 truncate">{member.name}</span>
+                    {isHost && (
+                      <select
+                        value={team.id}
+                        onChange={(e) => assignTeam(member.id, e.target.value)}
+                        aria-label={`Move ${member.name} to another team`}
+                        className="px-1 py-0.5 rounded bg-white/10 border border-white/20 text-xs text-white"
+                      >
+                        {teams.map(option => (
+                          <option key={option.id} value={option.id} className="text-black">{option.name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </li>
+                ))}
+                {members.length === 0 && <li className="text-sm text-gray-400">No players yet</li>}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+};
+
+export default TeamPanel;
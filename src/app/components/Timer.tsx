@@ -1,16 +1,51 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 
+// How often the ring and bar move while counting down, in ms
+const TIMER_STEP_MS = 100;
+
+// Milliseconds left until deadline (on this client's clock), recomputed every animation
+// frame but only re-rendering when the value moves to the next multiple of stepMs.
+// Without a deadline (e.g. while paused) the countdown holds at fallbackMs.
+export const useCountdown = (deadline: number | null | undefined, fallbackMs: number, stepMs = 0) => {
+  const getRemaining = () => {
+    if (!deadline) return fallbackMs;
+    const remaining = Math.max(0, deadline - Date.now());
+    return stepMs > 0 ? Math.ceil(remaining / stepMs) * stepMs : remaining;
+  };
+  const [remaining, setRemaining] = useState(getRemaining);
+
+  useEffect(() => {
+    setRemaining(getRemaining());
+    if (!deadline) return;
+
+    let frame = requestAnimationFrame(function tick() {
+      const value = getRemaining();
+      setRemaining(value);
+      if (value > 0) frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+    // getRemaining only reads the values listed here
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [deadline, fallbackMs, stepMs]);
+
+  return remaining;
+};
+
 interface TimerProps {
-  time: number;
+  deadline?: number | null; // ms on this client's clock
+  time?: number; // seconds shown when there is no deadline
   timeLimit?: number;
 }
 
-const Timer: React.FC<TimerProps> = ({ time, timeLimit = 15 }) => {
+const Timer: React.FC<TimerProps> = ({ deadline, time = 0, timeLimit = 15 }) => {
+  const remainingMs = useCountdown(deadline, time * 1000, TIMER_STEP_MS);
+  const seconds = Math.ceil(remainingMs / 1000);
+
   // Calculate progress percentage (0-100)
-  const progress = (time / timeLimit) * 100;
+  const progress = Math.min(100, (remainingMs / (timeLimit * 1000)) * 100);
   
   // Determine color based on time remaining
   const getColor = () => {
@@ -44,17 +79,17 @@ const Timer: React.FC<TimerProps> = ({ time, timeLimit = 15 }) => {
             transform="rotate(-90 50 50)"
             initial={{ strokeDashoffset: 251.2 }}
             animate={{ strokeDashoffset: 251.2 - (251.2 * progress) / 100 }}
-            transition={{ duration: 0.5, ease: "easeInOut" }}
+            transition={{ duration: TIMER_STEP_MS / 1000, ease: "linear" }}
           />
         </svg>
         <motion.div
           className="absolute top-0 left-0 w-full h-full flex items-center justify-center text-white font-bold text-xl"
-          key={time}
+          key={seconds}
           initial={{ scale: 1.2, opacity: 0 }}
           animate={{ scale: 1, opacity: 1 }}
           transition={{ duration: 0.3 }}
         >
-          {time}
+          {seconds}
         </motion.div>
       </div>
       
@@ -65,7 +100,7 @@ const Timer: React.FC<TimerProps> = ({ time, timeLimit = 15 }) => {
           className={`h-full ${getColor()}`}
           initial={{ width: '100%' }}
           animate={{ width: `${progress}%` }}
-          transition={{ duration: 0.5 }}
+          transition={{ duration: TIMER_STEP_MS / 1000, ease: "linear" }}
         />
       </motion.div>
     </div>
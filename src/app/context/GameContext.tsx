@@ -1,23 +1,106 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { useConnectionStats } from './useConnectionStats';
 // Extend GameState type to include sessionId for video signaling
 export interface GameState {
   sessionId: string;
   gameState: string;
+  mode?: GameMode;
+  isPrivate?: boolean;
+  roomCode?: string | null;
+  isPaused?: boolean;
+  isReconnecting?: boolean;
+  answerRejection?: AnswerRejection | null;
+  settings?: GameSettings;
+  settingsOptions?: GameSettingsOptions | null;
+  review?: QuestionReview[];
+  answerDistribution?: RoomAnswerSummary | null;
+  fastestCorrect?: FastestResponder | null;
+  eliminated?: EliminatedPlayer[];
   players: Player[];
+  spectatorCount?: number;
+  hasPresenter?: boolean;
+  answeredCount?: number;
+  queue?: QueueStatus | null;
+  teams?: Team[];
+  teamStandings?: TeamStanding[] | null;
+  powerUpEffects?: PowerUpEffects | null;
+  powerUpRejection?: PowerUpRejection | null;
   currentQuestion: Question | null;
   questionNumber: number;
   totalQuestions: number;
   timeLimit: number;
   timeRemaining: number;
+  questionEndTime?: number | null; // server clock
   lobbyTimeRemaining: number;
+  lobbyEndTime?: number | null; // server clock
   results: any[];
   errorMessage?: string;
 }
 
-import { Player, Question, GameStateType } from '../types';
+import { Player, Question, QuestionMedia, GameStateType, GameMode, AnswerRejection, AnswerValue, GameSettings, GameSettingsOptions, QuestionReview, RoomAnswerSummary, FastestResponder, QueueStatus, PlayerProfile, Team, TeamStanding, PowerUp, PowerUpEffects, PowerUpRejection, RoomPoll, ConnectionStats } from '../types';
+
+export const SERVER_URL = process.env.NEXT_PUBLIC_SOCKET_SERVER_URL || 'http://localhost:5001';
+
+// Turn a path the server sent (such as /media/flags/fr.svg) into a full URL
+export const resolveServerUrl = (url: string) => {
+  return /^https?:\/\//.test(url) ? url : `${SERVER_URL}${url}`;
+};
+
+// Options for joining a private room instead of public matchmaking, or for only watching
+export interface JoinOptions {
+  roomCode?: string;
+  createPrivate?: boolean;
+  spectate?: boolean;
+  presenter?: boolean; // spectate as the big-screen display
+}
+
+// Payload of the join event sent to the server
+interface JoinPayload extends JoinOptions {
+  name: string;
+  mode: GameMode;
+  profile?: Pick<PlayerProfile, 'token' | 'avatar' | 'color'>;
+}
+
+// Interface for session-joined event data
+interface SessionJoinedEventData {
+  sessionId: string;
+  resumeToken: string;
+  profileId: string | null;
+}
+
+// Interface for session-merged event data
+interface SessionMergedEventData {
+  newSessionId: string;
+  players: Array<{ id: string; name: string }>;
+}
+
+// Room-wide updates only carry answers to questions already revealed and leave out armed
+// power-ups; keep this player's own, which the server sent to us alone
+const withOwnAnswers = (update: Player, own: Player | null): Player => {
+  if (!own || own.id !== update.id) return update;
+  const known = new Set(update.answers.map(a => a.questionIndex));
+  return {
+    ...update,
+    doublePointsArmed: own.doublePointsArmed,
+    answers: [...update.answers, ...own.answers.filter(a => !known.has(a.questionIndex))]
+  };
+};
+
+// localStorage key holding the token that lets this client resume its seat after a drop
+const RESUME_TOKEN_KEY = 'quizResumeToken';
+
+// localStorage key holding this browser's player profile
+const PROFILE_KEY = 'quizProfile';
+
+// A random hex token identifying this browser's profile. getRandomValues also works
+// on plain-http LAN addresses, where crypto.randomUUID is unavailable.
+const createProfileToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
 
 // Interface for question event data
 interface QuestionEventData {
@@ -26,16 +109,65 @@ interface QuestionEventData {
   totalQuestions: number;
   timeLimit: number;
   timeRemaining: number;
+  questionEndTime: number; // server clock
+}
+
+// Interface for power-up-used event data; only the fields for the power-up used are set
+interface PowerUpUsedEventData {
+  powerUp: PowerUp;
+  questionIndex: number;
+  hiddenOptions?: number[];
+  extraSeconds?: number;
+  poll?: RoomPoll;
+}
+
+// Interface for spectating event data
+interface SpectatingEventData {
+  sessionId: string;
+  isPresenter: boolean;
+}
+
+// Interface for presenter-changed event data
+interface PresenterChangedEventData {
+  hasPresenter: boolean;
+}
+
+// Interface for answer-count event data
+interface AnswerCountEventData {
+  answered: number;
+  players: number;
 }
 
-// Interface for timer update event data
-interface TimerUpdateEventData {
+// Interface for media-preload event data
+interface MediaPreloadEventData {
+  questionNumber: number;
+  media: QuestionMedia;
+}
+
+// Interface for game-paused / game-resumed event data
+interface PauseEventData {
   timeRemaining: number;
+  questionEndTime?: number; // the new deadline, on resume
+}
+
+// A player knocked out of a survival game by the question that just ended
+interface EliminatedPlayer {
+  playerId: string;
+  name: string;
 }
 
 // Interface for question-ended event data
 interface QuestionEndedEventData {
-  question: Question & { correctOption: number };
+  question: Question;
+  room: RoomAnswerSummary;
+  fastestCorrect: FastestResponder | null;
+  eliminated: EliminatedPlayer[];
+}
+
+// Interface for leaderboard event data
+interface LeaderboardEventData {
+  players: Player[];
+  teams: TeamStanding[] | null;
 }
 
 // Interface for game-ended event data
@@ -46,13 +178,11 @@ interface GameEndedEventData {
     score: number;
     correctAnswers: number;
     rank: number;
+    teamId: string | null;
+    eliminatedOnQuestion: number | null;
   }>;
-}
-
-// Interface for network statistics
-interface NetworkStats {
-  latency: number;
-  packetLoss: number;
+  teams: TeamStanding[] | null;
+  review: QuestionReview[];
 }
 
 const initialGameState: GameState = {
@@ -72,11 +202,28 @@ interface GameContextType {
   socket: Socket | null;
   gameState: GameState;
   player: Player | null;
-  mode: 'normal' | 'conference';
-  connect: (name: string, mode: 'normal' | 'conference') => void;
+  mode: GameMode;
+  isSpectator: boolean;
+  networkStats: ConnectionStats | null;
+  clockOffset: number; // ms to add to a server time to get this client's time
+  profile: PlayerProfile | null;
+  updateProfile: (changes: Partial<Pick<PlayerProfile, 'nickname' | 'avatar' | 'color'>>) => void;
+  connect: (name: string, mode: GameMode, options?: JoinOptions) => void;
+  spectateInstead: () => void;
+  leaveQueue: () => void;
   disconnect: () => void;
   setReady: () => void;
-  submitAnswer: (answer: number) => void;
+  submitAnswer: (answer: AnswerValue) => void;
+  activatePowerUp: (powerUp: PowerUp) => void;
+  startGame: () => void;
+  updateSettings: (changes: Partial<GameSettings>) => void;
+  kickPlayer: (playerId: string) => void;
+  assignTeam: (playerId: string, teamId: string) => void;
+  shuffleTeams: () => void;
+  pauseGame: () => void;
+  resumeGame: () => void;
+  skipQuestion: () => void;
+  endGame: () => void;
 }
 
 const GameContext = createContext<GameContextType | undefined>(undefined);
@@ -90,10 +237,20 @@ export const useGame = () => {
 };
 
 export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [mode, setMode] = useState<'normal' | 'conference'>('normal');
+  const [mode, setMode] = useState<GameMode>('normal');
   const [socket, setSocket] = useState<Socket | null>(null);
+  const { stats: networkStats, clockOffset } = useConnectionStats(socket);
   const [gameState, setGameState] = useState<GameState>(initialGameState);
   const [player, setPlayer] = useState<Player | null>(null);
+  const [isSpectator, setIsSpectator] = useState(false);
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const resumeTokenRef = useRef<string | null>(null);
+  // Mirrors profile so socket handlers always see the latest one
+  const profileRef = useRef<PlayerProfile | null>(null);
+  // The last join request, so a player turned away can watch under the same name
+  const lastJoinRef = useRef<JoinPayload | null>(null);
+  // Elements holding upcoming question media so the browser has it cached in time
+  const preloadedMediaRef = useRef<Map<string, HTMLImageElement | HTMLMediaElement>>(new Map());
 
   useEffect(() => {
     return () => {
@@ -103,29 +260,140 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, [socket]);
 
-  const connect = (name: string, modeArg: 'normal' | 'conference') => {
-    setMode(modeArg);
-    const newSocket = io(process.env.NEXT_PUBLIC_SOCKET_SERVER_URL || 'http://localhost:5001');
+  const saveResumeToken = (token: string | null) => {
+    resumeTokenRef.current = token;
+    if (token) {
+      localStorage.setItem(RESUME_TOKEN_KEY, token);
+    } else {
+      localStorage.removeItem(RESUME_TOKEN_KEY);
+    }
+  };
+
+  const saveProfile = (next: PlayerProfile) => {
+    profileRef.current = next;
+    setProfile(next);
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(next));
+  };
+
+  // Change this browser's profile, creating it on first use
+  const updateProfile = (changes: Partial<Pick<PlayerProfile, 'nickname' | 'avatar' | 'color'>>) => {
+    const current = profileRef.current;
+    saveProfile({
+      token: current?.token || createProfileToken(),
+      nickname: current?.nickname || '',
+      avatar: current?.avatar || null,
+      color: current?.color || null,
+      profileId: current?.profileId,
+      ...changes
+    });
+  };
+
+  const preloadMedia = (media: QuestionMedia | null | undefined) => {
+    if (!media) return;
+    const url = resolveServerUrl(media.url);
+    if (preloadedMediaRef.current.has(url)) return;
+
+    let element: HTMLImageElement | HTMLMediaElement;
+    if (media.type === 'image') {
+      element = new Image();
+      element.src = url;
+    } else {
+      element = document.createElement(media.type);
+      element.preload = 'auto';
+      element.src = url;
+      element.load();
+    }
+    preloadedMediaRef.current.set(url, element);
+  };
+
+  // Opens the socket and wires up every server event. Each (re)connect resumes
+  // the saved seat if there is one, otherwise it sends the given join request.
+  const openSocket = (joinPayload: JoinPayload | null) => {
+    // Drop any socket left over from a failed join attempt
+    if (socket) {
+      socket.disconnect();
+    }
+    const newSocket = io(SERVER_URL);
     setSocket(newSocket);
 
     newSocket.on('connect', () => {
-      newSocket.emit('join', { name, mode: modeArg });
-      setGameState(prev => ({ ...prev, gameState: 'connecting' }));
+      if (resumeTokenRef.current) {
+        newSocket.emit('resume', { resumeToken: resumeTokenRef.current });
+      } else if (joinPayload?.spectate) {
+        newSocket.emit('spectate', { name: joinPayload.name, roomCode: joinPayload.roomCode, presenter: joinPayload.presenter });
+      } else if (joinPayload) {
+        newSocket.emit('join', joinPayload);
+      }
+      setGameState(prev => ({
+        ...prev,
+        gameState: prev.gameState === 'idle' || prev.gameState === 'error' ? 'connecting' : prev.gameState
+      }));
+    });
+
+    newSocket.on('session-joined', (data: SessionJoinedEventData) => {
+      console.log('Joined session:', data.sessionId);
+      saveResumeToken(data.resumeToken);
+      // Remember our public id so the leaderboard can pick us out
+      const currentProfile = profileRef.current;
+      if (currentProfile && data.profileId && currentProfile.profileId !== data.profileId) {
+        saveProfile({ ...currentProfile, profileId: data.profileId });
+      }
+    });
+
+    newSocket.on('session-merged', (data: SessionMergedEventData) => {
+      console.log(`Lobby merged into session ${data.newSessionId} with ${data.players.length} players`);
+      // VideoGrid rejoins the video mesh of the merged room when the session id changes
+      setGameState(prev => ({ ...prev, sessionId: data.newSessionId }));
+    });
+
+    newSocket.on('spectating', (data: SpectatingEventData) => {
+      console.log(`${data.isPresenter ? 'Presenting' : 'Spectating'} session:`, data.sessionId);
+      setIsSpectator(true);
+    });
+
+    newSocket.on('presenter-changed', (data: PresenterChangedEventData) => {
+      setGameState(prev => ({ ...prev, hasPresenter: data.hasPresenter }));
+    });
+
+    newSocket.on('answer-count', (data: AnswerCountEventData) => {
+      setGameState(prev => ({ ...prev, answeredCount: data.answered }));
+    });
+
+    newSocket.on('queue-update', (data: QueueStatus) => {
+      console.log('Waiting for a free session:', data);
+      setGameState(prev => ({ ...prev, gameState: 'queued', queue: data }));
+    });
+
+    newSocket.on('resume-failed', () => {
+      console.log('Could not resume the previous session');
+      saveResumeToken(null);
+      newSocket.disconnect();
+      setSocket(null);
+      setGameState({ ...initialGameState, gameState: 'error', errorMessage: 'SESSION_EXPIRED' });
+      setPlayer(null);
     });
 
     newSocket.on('gameState', (newState: GameState) => {
       console.log('Received gameState event:', newState);
       setGameState(newState);
+      // A private room keeps the mode it was created with
+      if (newState.mode) {
+        setMode(newState.mode);
+      }
       
       // Update player state when game state is received
       const currentPlayer = newState.players.find(p => p.id === newSocket.id);
       if (currentPlayer) {
-        setPlayer(currentPlayer);
+        setPlayer(prev => withOwnAnswers(currentPlayer, prev));
       }
     });
 
     newSocket.on('question', (data: QuestionEventData) => {
       console.log('Received question event:', data);
+      // Lets the server measure how late the question reached us and extend our deadline to match
+      newSocket.emit('questionReceived', { questionIndex: data.questionNumber - 1 });
+      // Normally already loaded by media-preload; this covers players who joined late
+      preloadMedia(data.question.media);
       setGameState(prev => ({
         ...prev,
         gameState: 'playing',
@@ -133,15 +401,76 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
         questionNumber: data.questionNumber,
         totalQuestions: data.totalQuestions,
         timeLimit: data.timeLimit,
-        timeRemaining: data.timeRemaining
+        timeRemaining: data.timeRemaining,
+        questionEndTime: data.questionEndTime,
+        isPaused: false,
+        answerRejection: null,
+        powerUpEffects: null,
+        powerUpRejection: null,
+        answerDistribution: null,
+        fastestCorrect: null,
+        eliminated: [],
+        answeredCount: 0
+      }));
+    });
+
+    newSocket.on('media-preload', (data: MediaPreloadEventData) => {
+      console.log('Preloading media for question', data.questionNumber);
+      preloadMedia(data.media);
+    });
+
+    newSocket.on('answer-rejected', (data: AnswerRejection) => {
+      console.warn('Answer rejected by server:', data);
+      setGameState(prev => ({
+        ...prev,
+        answerRejection: data
+      }));
+    });
+
+    newSocket.on('power-up-used', (data: PowerUpUsedEventData) => {
+      console.log('Power-up used:', data);
+      setGameState(prev => {
+        const effects: PowerUpEffects = prev.powerUpEffects?.questionIndex === data.questionIndex
+          ? prev.powerUpEffects
+          : { questionIndex: data.questionIndex, hiddenOptions: [], extraSeconds: 0, poll: null };
+        return {
+          ...prev,
+          powerUpRejection: null,
+          powerUpEffects: {
+            ...effects,
+            hiddenOptions: data.hiddenOptions ?? effects.hiddenOptions,
+            extraSeconds: effects.extraSeconds + (data.extraSeconds || 0),
+            poll: data.poll ?? effects.poll
+          }
+        };
+      });
+    });
+
+    newSocket.on('power-up-rejected', (data: PowerUpRejection) => {
+      console.warn('Power-up rejected by server:', data);
+      setGameState(prev => ({
+        ...prev,
+        powerUpRejection: data
       }));
     });
 
-    newSocket.on('timer-update', (data: TimerUpdateEventData) => {
-      console.log('Received timer update:', data);
+    newSocket.on('game-paused', (data: PauseEventData) => {
+      console.log('Received game-paused event:', data);
       setGameState(prev => ({
         ...prev,
-        timeRemaining: data.timeRemaining
+        isPaused: true,
+        timeRemaining: data.timeRemaining,
+        questionEndTime: null
+      }));
+    });
+
+    newSocket.on('game-resumed', (data: PauseEventData) => {
+      console.log('Received game-resumed event:', data);
+      setGameState(prev => ({
+        ...prev,
+        isPaused: false,
+        timeRemaining: data.timeRemaining,
+        questionEndTime: data.questionEndTime
       }));
     });
 
@@ -149,15 +478,27 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.log('Received question-ended event:', data);
       setGameState(prev => ({
         ...prev,
+        isPaused: false,
         currentQuestion: {
           ...prev.currentQuestion!,
-          correctOption: data.question.correctOption
-        }
+          revealed: true,
+          correctOption: data.question.correctOption,
+          correctOptions: data.question.correctOptions,
+          correctOrder: data.question.correctOrder,
+          correctAnswer: data.question.correctAnswer,
+          explanation: data.question.explanation
+        },
+        answerDistribution: data.room,
+        fastestCorrect: data.fastestCorrect,
+        eliminated: data.eliminated
       }));
     });
 
     newSocket.on('game-ended', (data: GameEndedEventData) => {
       console.log('Received game-ended event:', data);
+      // Nothing left to resume once the results are in
+      saveResumeToken(null);
+      preloadedMediaRef.current.clear();
       setGameState(prev => ({
         ...prev,
         gameState: 'results',
@@ -165,16 +506,12 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
         results: data.results.map(result => ({
           playerId: result.id,
           score: result.score,
-          rank: result.rank
-        }))
-      }));
-    });
-
-    newSocket.on('pong', (data: NetworkStats) => {
-      setGameState(prev => ({
-        ...prev,
-        networkLatency: data.latency,
-        packetLoss: data.packetLoss
+          rank: result.rank,
+          teamId: result.teamId,
+          eliminatedOnQuestion: result.eliminatedOnQuestion
+        })),
+        teamStandings: data.teams,
+        review: data.review
       }));
     });
 
@@ -192,15 +529,35 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
     });
 
-    newSocket.on('leaderboard', (players: Player[]) => {
-      console.log('Received leaderboard event:', players);
+    newSocket.on('leaderboard', ({ players, teams }: LeaderboardEventData) => {
+      console.log('Received leaderboard event:', players, teams);
       setGameState(prev => ({
         ...prev,
-        players
+        players,
+        teamStandings: teams
       }));
+      // Pick up changes to this client's own entry, such as being handed the host role
+      const currentPlayer = players.find(p => p.id === newSocket.id);
+      if (currentPlayer) {
+        setPlayer(prev => withOwnAnswers(currentPlayer, prev));
+      }
     });
 
-    newSocket.on('disconnect', () => {
+    newSocket.on('kicked', () => {
+      console.log('Removed from the session by the host');
+      saveResumeToken(null);
+      newSocket.disconnect();
+      setSocket(null);
+      setGameState({ ...initialGameState, gameState: 'error', errorMessage: 'KICKED' });
+    });
+
+    newSocket.on('disconnect', (reason) => {
+      // Keep the game on screen while socket.io reconnects and resumes a dropped seat
+      if (resumeTokenRef.current && reason !== 'io client disconnect' && reason !== 'io server disconnect') {
+        console.log('Connection lost, attempting to resume:', reason);
+        setGameState(prev => ({ ...prev, isReconnecting: true }));
+        return;
+      }
       setGameState(initialGameState);
       setPlayer(null);
     });
@@ -215,12 +572,72 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
   };
 
+  const connect = (name: string, modeArg: GameMode, options: JoinOptions = {}) => {
+    saveResumeToken(null);
+    setMode(modeArg);
+    setIsSpectator(false);
+    const spectate = options.spectate || options.presenter;
+    const joinPayload: JoinPayload = {
+      name,
+      mode: modeArg,
+      roomCode: options.roomCode,
+      createPrivate: options.createPrivate,
+      spectate,
+      presenter: options.presenter
+    };
+    // Players bring their profile along; watchers don't need one
+    if (!spectate) {
+      updateProfile({ nickname: name });
+      const { token, avatar, color } = profileRef.current!;
+      joinPayload.profile = { token, avatar, color };
+    }
+    lastJoinRef.current = joinPayload;
+    openSocket(joinPayload);
+  };
+
+  // Watch a game in progress after being turned away from joining one
+  const spectateInstead = () => {
+    const lastJoin = lastJoinRef.current;
+    connect(lastJoin?.name || 'Spectator', lastJoin?.mode || 'normal', { spectate: true });
+  };
+
+  // Stop waiting for a free session and go back to the start screen
+  const leaveQueue = () => {
+    socket?.emit('leaveQueue');
+    disconnect();
+  };
+
+  // Load this browser's profile, if it has played before
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(PROFILE_KEY) || 'null');
+      if (saved && typeof saved.token === 'string') {
+        profileRef.current = saved;
+        setProfile(saved);
+      }
+    } catch {
+      localStorage.removeItem(PROFILE_KEY);
+    }
+  }, []);
+
+  // After a page reload, rejoin the game this browser was last seated in
+  useEffect(() => {
+    const savedToken = localStorage.getItem(RESUME_TOKEN_KEY);
+    if (savedToken) {
+      resumeTokenRef.current = savedToken;
+      openSocket(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const disconnect = () => {
+    saveResumeToken(null);
     if (socket) {
       socket.disconnect();
       setSocket(null);
       setGameState(initialGameState);
       setPlayer(null);
+      setIsSpectator(false);
     }
   };
 
@@ -230,21 +647,79 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const submitAnswer = (answer: number) => {
+  const submitAnswer = (answer: AnswerValue) => {
     if (socket) {
-      socket.emit('submitAnswer', { answer });
+      socket.emit('submitAnswer', { answer, questionIndex: gameState.questionNumber - 1 });
     }
   };
 
+  const activatePowerUp = (powerUp: PowerUp) => {
+    socket?.emit('usePowerUp', { powerUp, questionIndex: gameState.questionNumber - 1 });
+  };
+
+  // Host-only commands; the server ignores them from anyone but the session host
+  const startGame = () => {
+    socket?.emit('startGame');
+  };
+
+  const updateSettings = (changes: Partial<GameSettings>) => {
+    socket?.emit('updateSettings', changes);
+  };
+
+  const kickPlayer = (playerId: string) => {
+    socket?.emit('kickPlayer', { playerId });
+  };
+
+  const assignTeam = (playerId: string, teamId: string) => {
+    socket?.emit('assignTeam', { playerId, teamId });
+  };
+
+  const shuffleTeams = () => {
+    socket?.emit('shuffleTeams');
+  };
+
+  const pauseGame = () => {
+    socket?.emit('pauseGame');
+  };
+
+  const resumeGame = () => {
+    socket?.emit('resumeGame');
+  };
+
+  const skipQuestion = () => {
+    socket?.emit('skipQuestion');
+  };
+
+  const endGame = () => {
+    socket?.emit('endGame');
+  };
+
   const value: GameContextType = {
     socket,
     gameState,
     player,
     mode,
+    isSpectator,
+    networkStats,
+    clockOffset,
+    profile,
+    updateProfile,
     connect,
+    spectateInstead,
+    leaveQueue,
     disconnect,
     setReady,
     submitAnswer,
+    activatePowerUp,
+    startGame,
+    updateSettings,
+    kickPlayer,
+    assignTeam,
+    shuffleTeams,
+    pauseGame,
+    resumeGame,
+    skipQuestion,
+    endGame,
   };
 
   return <GameContext.Provider value={value}>{children}</GameContext.Provider>;
@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Socket } from 'socket.io-client';
+import { ConnectionStats } from '../types';
+
+// Clock-sync round trips made on connect; the quickest one gives the best offset
+const CLOCK_SYNC_ROUNDS = 5;
+
+// Interface for heartbeat event data
+interface HeartbeatEventData {
+  seq: number;
+  serverTime: number;
+}
+
+// Interface for clock-sync event data
+interface ClockSyncEventData {
+  clientTime: number;
+  serverTime: number;
+}
+
+// Answers the server's heartbeats on socket and keeps the stats the server sends back.
+// GameContext runs this once and shares the result, so there is one heartbeat per connection.
+// clockOffset (ms this client's clock is ahead of the server's) comes from a short clock-sync
+// handshake on connect until the heartbeats have produced their own estimate.
+export const useConnectionStats = (socket: Socket | null) => {
+  const [stats, setStats] = useState<ConnectionStats | null>(null);
+  const [syncedOffset, setSyncedOffset] = useState<number | null>(null);
+
+  useEffect(() => {
+    setStats(null);
+    setSyncedOffset(null);
+    if (!socket) return;
+
+    let rounds = 0;
+    let bestRtt = Infinity;
+
+    const requestClockSync = () => {
+      socket.emit('syncClock', { clientTime: Date.now() });
+    };
+    const handleClockSync = ({ clientTime, serverTime }: ClockSyncEventData) => {
+      const now = Date.now();
+      const rtt = now - clientTime;
+      // Assume the server stamped its reply halfway through the round trip
+      if (rtt < bestRtt) {
+        bestRtt = rtt;
+        setSyncedOffset(Math.round((clientTime + now) / 2 - serverTime));
+      }
+      rounds++;
+      if (rounds < CLOCK_SYNC_ROUNDS) requestClockSync();
+    };
+    const startClockSync = () => {
+      rounds = 0;
+      bestRtt = Infinity;
+      requestClockSync();
+    };
+    const handleHeartbeat = ({ seq }: HeartbeatEventData) => {
+      socket.emit('heartbeatAck', { seq, clientTime: Date.now() });
+    };
+    const handleStats = (data: ConnectionStats) => setStats(data);
+
+    socket.on('connect', startClockSync);
+    socket.on('clock-sync', handleClockSync);
+    socket.on('heartbeat', handleHeartbeat);
+    socket.on('network-stats', handleStats);
+    if (socket.connected) startClockSync();
+
+    return () => {
+      socket.off('connect', startClockSync);
+      socket.off('clock-sync', handleClockSync);
+      socket.off('heartbeat', handleHeartbeat);
+      socket.off('network-stats', handleStats);
+    };
+  }, [socket]);
+
+  return { stats, clockOffset: stats?.clockOffset ?? syncedOffset ?? 0 };
+};
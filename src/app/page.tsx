@@ -7,7 +7,6 @@ import LobbyScreen from './components/LobbyScreen';
 import QuizScreen from './components/QuizScreen';
 import ResultsScreen from './components/ResultsScreen';
 import ServerBusyModal from './components/ServerBusyModal';
-import NetworkStats from './components/NetworkStats';
 import { motion, AnimatePresence } from 'framer-motion';
 
 export default function Home() {
@@ -27,7 +26,8 @@ export default function Home() {
           transition={{ duration: 0.5, ease: "easeInOut" }}
           className="relative z-10"
         >
-          {gameState.gameState === 'idle' || gameState.gameState === 'connecting' ? (
+          {gameState.gameState === 'idle' || gameState.gameState === 'connecting' || gameState.gameState === 'queued' ||
+           (gameState.gameState === 'error' && gameState.errorMessage !== 'SERVER_BUSY') ? (
             <SplashScreen key="splash" />
           ) : gameState.gameState === 'lobby' ? (
             <LobbyScreen key="lobby" />
@@ -39,8 +39,13 @@ export default function Home() {
         </motion.div>
       </AnimatePresence>
 
+      {gameState.isReconnecting && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-lg bg-yellow-500/80 text-white text-sm font-medium shadow-lg backdrop-blur-sm">
+          Connection lost. Reconnecting to your game...
+        </div>
+      )}
+
       <ServerBusyModal />
-      <NetworkStats />
     </div>
   );
 }
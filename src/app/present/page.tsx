@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useGame } from '../context/GameContext';
+import PresenterScreen from '../components/PresenterScreen';
+
+// Messages for errors that stop a presenter connecting
+const PRESENTER_ERRORS: Record<string, string> = {
+  ROOM_NOT_FOUND: 'No room found with that code.',
+  NO_GAMES_TO_WATCH: 'There are no public games in progress right now.',
+  SPECTATORS_FULL: 'That game cannot take any more screens.',
+  SESSION_CLOSED: 'The game has closed.'
+};
+
+export default function PresentPage() {
+  const { gameState, isSpectator, connect } = useGame();
+  const [roomCode, setRoomCode] = React.useState('');
+
+  const isPresenting = isSpectator && ['lobby', 'playing', 'results'].includes(gameState.gameState);
+  const presentError = gameState.gameState === 'error' && gameState.errorMessage
+    ? PRESENTER_ERRORS[gameState.errorMessage] || gameState.errorMessage
+    : null;
+
+  const handlePresent = () => {
+    connect('Presenter', 'normal', { presenter: true, roomCode: roomCode.trim() || undefined });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 dark:from-gray-900 dark:via-blue-900 dark:to-indigo-900">
+      {isPresenting ? (
+        <PresenterScreen />
+      ) : (
+        <div className="flex flex-col items-center justify-center min-h-screen p-4">
+          <motion.div
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            className="w-full max-w-md bg-white/10 backdrop-blur-sm rounded-xl shadow-2xl p-8"
+          >
+            <h1 className="text-3xl font-bold text-white text-center mb-2">Presenter Screen</h1>
+            <p className="text-gray-300 text-center mb-6">
+              Show a game on the big screen. Players answer on their own devices.
+            </p>
+            <input
+              type="text"
+              value={roomCode}
+              onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+              placeholder="Room code"
+              maxLength={6}
+              className="w-full mb-4 px-6 py-3 rounded-xl bg-white/10 border border-white/20 text-white placeholder-white/50
+                       tracking-widest uppercase focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+            />
+            {presentError && (
+              <p className="mb-4 text-center text-sm text-red-300">{presentError}</p>
+            )}
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={handlePresent}
+              disabled={gameState.gameState === 'connecting'}
+              className="w-full py-4 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold text-lg shadow-lg disabled:opacity-50"
+            >
+              {roomCode.trim() ? 'Present This Room' : 'Present a Public Game'}
+            </motion.button>
+          </motion.div>
+        </div>
+      )}
+    </div>
+  );
+}
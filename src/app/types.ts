@@ -1,23 +1,283 @@
-export type GameStateType = 'idle' | 'connecting' | 'lobby' | 'playing' | 'results' | 'error';
+export type GameStateType = 'idle' | 'connecting' | 'queued' | 'lobby' | 'playing' | 'results' | 'error';
+
+export type GameMode = 'normal' | 'conference';
+
+// Per-session settings the host picks in the lobby
+export interface GameSettings {
+  questionCount: number;
+  category: string;
+  difficulty: 'mixed' | Difficulty;
+  timerMode: 'adaptive' | 'fixed';
+  questionTimer: number;
+  maxPlayers: number;
+  revealDelay: number;
+  teamMode: boolean;
+  teamCount: number;
+  teamScoring: TeamScoring;
+  survivalMode: boolean;
+  lives: number;
+}
+
+// How a team's members' points for a question combine into the team's points
+export type TeamScoring = 'sum' | 'average' | 'best';
+
+export interface Team {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// A team's running total and place, with its top-scoring member
+export interface TeamStanding extends Team {
+  score: number;
+  rank: number;
+  memberIds: string[];
+  mvpId: string | null;
+}
+
+// Choices and [min, max] ranges the server accepts for each setting
+export interface GameSettingsOptions {
+  categories: string[];
+  difficulties: GameSettings['difficulty'][];
+  timerModes: GameSettings['timerMode'][];
+  teamScorings: TeamScoring[];
+  limits: Record<'questionCount' | 'questionTimer' | 'maxPlayers' | 'revealDelay' | 'teamCount' | 'lives', [number, number]>;
+}
+
+// Why the server refused an answer submission
+export type AnswerRejectionReason =
+  | 'NOT_PLAYING'
+  | 'QUESTION_CLOSED'
+  | 'DUPLICATE_ANSWER'
+  | 'INVALID_ANSWER'
+  | 'TOO_LATE'
+  | 'ELIMINATED';
+
+export interface AnswerRejection {
+  reason: AnswerRejectionReason;
+  questionIndex: number;
+}
+
+// This browser's player profile. The token never leaves this client except to the
+// server, which derives the public profileId from it.
+export interface PlayerProfile {
+  token: string;
+  nickname: string;
+  avatar: string | null;
+  color: string | null;
+  profileId?: string;
+}
+
+export type LeaderboardSort = 'wins' | 'accuracy' | 'gamesPlayed' | 'averageResponseTime';
+
+// One player's all-time totals on the global leaderboard
+export interface LeaderboardEntry {
+  playerKey: string; // profile id, or a key for one game for players without a profile
+  nickname: string;
+  avatar: string | null;
+  color: string | null;
+  gamesPlayed: number;
+  wins: number;
+  correctAnswers: number;
+  questionsPlayed: number;
+  accuracy: number; // 0-1
+  averageResponseTimeMs: number | null;
+  lastPlayedAt: number;
+}
+
+// A queued player's place in line while every session slot is taken
+export interface QueueStatus {
+  position: number; // 1 is next to be seated
+  queueLength: number;
+  estimatedWaitSeconds: number;
+}
+
+export type ConnectionHealth = 'good' | 'fair' | 'poor';
+
+// This client's connection as measured by the server's heartbeats
+export interface ConnectionStats {
+  latency: number; // ms, last round trip
+  averageLatency: number; // ms
+  jitter: number; // ms, average change between consecutive round trips
+  packetLoss: number; // % of recent heartbeats never answered
+  clockOffset: number | null; // ms this client's clock is ahead of the server's
+  health: ConnectionHealth;
+  history: number[]; // recent round trips, oldest first
+}
+
+// The time limit the server picked for one question
+export interface TimerDecision {
+  questionIndex: number;
+  averageLatency: number; // ms, the players' average when the timer was picked
+  timerMode: GameSettings['timerMode'];
+  timeLimit: number; // seconds
+  decidedAt: number;
+}
+
+// A player as seen from the admin dashboard, with their connection
+export interface AdminPlayer {
+  id: string;
+  name: string;
+  score: number;
+  isAway: boolean;
+  answerGraceMs: number; // how late their answers may arrive
+  network: ConnectionStats | null;
+}
+
+export interface AdminSession {
+  id: string;
+  mode: GameMode;
+  status: 'lobby' | 'playing' | 'ended';
+  isPrivate: boolean;
+  roomCode: string | null;
+  isPaused: boolean;
+  questionIndex: number; // -1 before the first question
+  totalQuestions: number;
+  spectatorCount: number;
+  timerDecisions: TimerDecision[];
+  players: AdminPlayer[];
+}
+
+// Everything the admin dashboard shows, pushed by the server every few seconds
+export interface AdminSnapshot {
+  serverTime: number;
+  uptimeSeconds: number;
+  maxSessions: number;
+  queueLength: number;
+  maxQueueLength: number;
+  sessions: AdminSession[];
+}
+
+// Points awarded for one answer, as computed by the server's scoring engine
+export interface ScoreBreakdown {
+  base: number;
+  speedBonus: number;
+  streakBonus: number;
+  boostBonus: number;
+  penalty: number;
+  multiplier: number;
+  credit: number;
+  total: number;
+  streak: number;
+}
 
 export interface Player {
   id: string;
   name: string;
+  profileId?: string | null;
+  avatar?: string | null;
+  color?: string | null;
+  teamId?: string | null;
   score: number;
   isReady: boolean;
   isHost: boolean;
+  isAway?: boolean;
+  hasAnswered?: boolean; // answered the open question; the answer itself shows after the reveal
+  streak?: number;
+  usedPowerUps?: PowerUp[];
+  doublePointsArmed?: boolean;
+  lives?: number | null; // survival mode only
+  eliminatedOnQuestion?: number | null;
   answers: Array<{
     questionIndex: number;
-    answer: number;
+    answer: AnswerValue;
     isCorrect: boolean;
+    points?: ScoreBreakdown;
+    responseTimeMs?: number;
   }>;
 }
 
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type QuestionType = 'single' | 'true-false' | 'multi-select' | 'numeric' | 'ordering';
+
+// An option index for single choice and true/false, a list of option indexes for
+// multi-select and ordering, or the guessed number for numeric questions
+export type AnswerValue = number | number[];
+
+// An image, audio clip or video shown with a question; url is a path on the game server
+export interface QuestionMedia {
+  type: 'image' | 'audio' | 'video';
+  url: string;
+  alt: string;
+}
+
 export interface Question {
   id: string;
+  type?: QuestionType;
   question: string;
   options: string[];
+  category?: string;
+  difficulty?: Difficulty;
+  media?: QuestionMedia | null;
+  fiftyFiftyAvailable?: boolean; // enough wrong options for a 50/50 to hide two
+  // Numeric questions only
+  unit?: string;
+  min?: number;
+  max?: number;
+  // Filled in once the question ends
+  revealed?: boolean;
   correctOption?: number;
+  correctOptions?: number[];
+  correctOrder?: number[];
+  correctAnswer?: number;
+  explanation?: string | null;
+}
+
+// How the whole room did on one question. counts has one entry per option:
+// how many picked it, or for ordering questions how many put it in the right place.
+export interface RoomAnswerSummary {
+  players: number;
+  answered: number;
+  correct: number;
+  counts: number[];
+}
+
+// How the room has answered so far, as shown by the poll power-up; correctness stays hidden
+export type RoomPoll = Pick<RoomAnswerSummary, 'players' | 'answered' | 'counts'>;
+
+export type PowerUp = 'fiftyFifty' | 'doublePoints' | 'timeFreeze' | 'pollRoom';
+
+export type PowerUpRejectionReason =
+  | 'UNKNOWN_POWER_UP'
+  | 'ALREADY_USED'
+  | 'NOT_PLAYING'
+  | 'QUESTION_CLOSED'
+  | 'ALREADY_ANSWERED'
+  | 'NOT_AVAILABLE'
+  | 'ELIMINATED';
+
+export interface PowerUpRejection {
+  powerUp: PowerUp;
+  reason: PowerUpRejectionReason;
+}
+
+// What this player's power-ups changed about one question; only they see it
+export interface PowerUpEffects {
+  questionIndex: number;
+  hiddenOptions: number[];
+  extraSeconds: number;
+  poll: RoomPoll | null;
+}
+
+// The player who answered a question correctly first
+export interface FastestResponder {
+  playerId: string;
+  name: string;
+  responseTimeMs: number;
+}
+
+// One question of the post-game review, with every player's answer
+export interface QuestionReview {
+  questionNumber: number;
+  question: Question;
+  room: RoomAnswerSummary;
+  answers: Array<{
+    playerId: string;
+    answer: AnswerValue | null;
+    isCorrect: boolean;
+    points: number;
+  }>;
 }
 
 export interface GameState {
@@ -35,6 +295,4 @@ export interface GameState {
     rank: number;
   }>;
   errorMessage?: string;
-  networkLatency?: number;
-  packetLoss?: number;
 } 
\ No newline at end of file